@@ -1,4 +1,5 @@
-import { useIntl, usePrefersColor, useSiteData } from 'dumi';
+import { useFarmThemeMode } from '@farm-design-system/theme/react';
+import { useIntl, usePrefersColor } from 'dumi';
 import React from 'react';
 import './index.less';
 
@@ -36,19 +37,15 @@ const ICONS: Record<ColorMode, React.ComponentType> = {
 
 /**
  * 自定义主题切换器（替换默认 select UI）：
- * - 仍然使用 dumi 内置的 `usePrefersColor()`，保持与 dumi 的存储/同步机制一致
+ * - 当前模式以 `useFarmThemeMode()` 为准（`FarmProvider` 负责跟随系统与持久化，见 `.dumi/app.tsx`）
+ * - 切换时同步调用 dumi 的 `usePrefersColor()`，让 dumi 自带样式（`html[data-prefers-color]`）一起切换
  * - UI 参考 arco.design 的“图标按钮组”风格：更紧凑、可一眼识别当前模式
- *
- * 注意：
- * - dumi 会把最终生效的模式写到 `html[data-prefers-color]` 上；
- * - 样式层只需要基于这个 attribute 做 dark 覆盖即可。
  */
 export default function ColorSwitch() {
   const intl = useIntl();
-  const { themeConfig } = useSiteData();
-  const defaultColor = themeConfig.prefersColor?.default ?? 'auto';
-
-  const [, prefersColor = defaultColor, setPrefersColor] = usePrefersColor();
+  const { mode: farmMode, setMode } = useFarmThemeMode();
+  const [, , setPrefersColor] = usePrefersColor();
+  const prefersColor: ColorMode = farmMode === 'system' ? 'auto' : farmMode === 'dark' ? 'dark' : 'light';
 
   const modes: ColorMode[] = ['light', 'dark', 'auto'];
 
@@ -74,6 +71,7 @@ export default function ColorSwitch() {
             onClick={(e) => {
               // Header 的移动端菜单会监听 click 关闭，这里阻止冒泡，避免切换主题时把菜单关掉。
               e.stopPropagation();
+              setMode(mode === 'auto' ? 'system' : mode);
               setPrefersColor(mode);
             }}
           >
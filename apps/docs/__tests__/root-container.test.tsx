@@ -18,20 +18,36 @@ vi.mock('antd', async () => {
 const React = (await import('react')).default;
 const { rootContainer } = await import('../.dumi/app');
 
+function stubPrefersDark(matches: boolean) {
+  vi.stubGlobal('matchMedia', () => ({ matches, addEventListener: () => {}, removeEventListener: () => {} }));
+}
+
 afterEach(() => {
   cleanup();
+  vi.unstubAllGlobals();
+  window.localStorage.clear();
   document.documentElement.removeAttribute('data-theme');
-  document.documentElement.removeAttribute('data-prefers-color');
 });
 
 describe('docs rootContainer', () => {
-  it('会跟随 html[data-prefers-color] 在 light/dark 间切换', async () => {
-    document.documentElement.setAttribute('data-prefers-color', 'dark');
+  it('读取 dumi 持久化的用户选择', async () => {
+    window.localStorage.setItem('dumi:prefers-color', 'dark');
 
     render(rootContainer(React.createElement('div', { 'data-testid': 'content' })));
     await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'dark'));
+  });
 
-    document.documentElement.setAttribute('data-prefers-color', 'light');
+  it('auto / 未选择时跟随系统 prefers-color-scheme', async () => {
+    stubPrefersDark(true);
+    window.localStorage.setItem('dumi:prefers-color', 'auto');
+
+    render(rootContainer(React.createElement('div', { 'data-testid': 'content' })));
+    await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'dark'));
+
+    cleanup();
+    window.localStorage.clear();
+    stubPrefersDark(false);
+    render(rootContainer(React.createElement('div', { 'data-testid': 'content' })));
     await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'light'));
   });
 });
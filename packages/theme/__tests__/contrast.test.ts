@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { auditContrast, contrastPairs, getContrastRatio, parseColor } from '../src/contrast';
+import { createTheme } from '../src/tokens';
+
+describe('contrast', () => {
+  it('parseColor 支持 hex/rgb/rgba，getContrastRatio 与 WCAG 参考值一致', () => {
+    expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseColor('#00000080')).toEqual({ r: 0, g: 0, b: 0, a: 128 / 255 });
+    expect(parseColor('rgba(255, 0, 0, 0.5)')).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+    expect(parseColor('rgb(0 0 255 / 50%)')).toEqual({ r: 0, g: 0, b: 255, a: 0.5 });
+    expect(parseColor('var(--farm-color-text)')).toBeNull();
+
+    expect(getContrastRatio('#000000', '#ffffff')).toBe(21);
+    expect(getContrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+    // 50% 黑叠在白底上 ≈ #808080
+    expect(getContrastRatio('rgba(0, 0, 0, 0.5)', '#ffffff')).toBeCloseTo(getContrastRatio('#808080', '#ffffff'), 1);
+  });
+
+  it('auditContrast 按模式审计内置组合，并能读到组件 token', () => {
+    const report = auditContrast();
+    expect(report.results).toHaveLength(contrastPairs.length * createTheme().modes.length);
+
+    const button = report.results.find((r) => r.mode === 'light' && r.pair.foreground === 'Button.primaryColor');
+    expect(button?.foregroundValue).toBe(createTheme().antdTheme.light.components?.Button?.primaryColor);
+    expect(report.failures.every((r) => !r.aa)).toBe(true);
+  });
+
+  it('审计 createTheme() 的覆写，半透明前景按叠加后的颜色计算', () => {
+    const bundle = createTheme({
+      overrides: { light: { colorText: 'rgba(0, 0, 0, 0.2)', colorBgContainer: '#ffffff' } }
+    });
+    const pair = { foreground: 'colorText', background: 'colorBgContainer' };
+    const [result] = auditContrast(bundle, { pairs: [pair], modes: ['light'] }).results;
+
+    expect(result!.foregroundColor).toBe('#cccccc');
+    expect(result!.aa).toBe(false);
+    expect(auditContrast(bundle, { pairs: [pair], modes: ['light'] }).failures).toHaveLength(1);
+
+    expect(() => auditContrast(bundle, { pairs: [{ foreground: 'colorNope', background: 'colorBgContainer' }] })).toThrow(
+      '不存在的 token "colorNope"'
+    );
+  });
+
+  it('level=AAA 更严格，大号文字门槛更低', () => {
+    const bundle = createTheme({ overrides: { light: { colorText: '#767676', colorBgContainer: '#ffffff' } } });
+    const normal = { foreground: 'colorText', background: 'colorBgContainer' };
+    const large = { ...normal, large: true };
+
+    expect(auditContrast(bundle, { pairs: [normal], modes: ['light'] }).failures).toHaveLength(0);
+    expect(auditContrast(bundle, { pairs: [normal], modes: ['light'], level: 'AAA' }).failures).toHaveLength(1);
+    expect(auditContrast(bundle, { pairs: [large], modes: ['light'], level: 'AAA' }).failures).toHaveLength(0);
+  });
+});
@@ -0,0 +1,119 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { toDtcgTokens } from '../src/dtcg';
+import { createTheme, finexUi, resolveFinexUi, tokens } from '../src/tokens';
+
+function readTokenStudioExport(): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(path.resolve(__dirname, '../scripts/finex-ui.json'), 'utf8')) as Record<string, unknown>;
+}
+
+/** Token Studio 开启 DTCG 格式后的导出：分组不变，叶子改成 `$value/$type` */
+function toDtcgLeaves(node: unknown): unknown {
+  if (Array.isArray(node) || !node || typeof node !== 'object') return node;
+  const record = node as Record<string, unknown>;
+  if ('value' in record && ('type' in record || typeof record.value !== 'object')) {
+    return { $value: record.value, ...(record.type === undefined ? {} : { $type: record.type }) };
+  }
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, toDtcgLeaves(value)]));
+}
+
+describe('DTCG', () => {
+  it('Token Studio 的 DTCG 格式导出与旧格式解析结果一致', () => {
+    const legacy = createTheme({ tokenStudio: readTokenStudioExport() });
+    const dtcg = createTheme({ tokenStudio: toDtcgLeaves(readTokenStudioExport()) });
+    expect(dtcg.finexUi).toEqual(legacy.finexUi);
+  });
+
+  it('纯 DTCG 文档：根路径引用、继承 $type、对象值与 shadow', () => {
+    const document = {
+      $description: 'DTCG fixture',
+      base: {
+        purple: { $type: 'color', 6: { $value: { colorSpace: 'srgb', components: [0, 0.5, 1], alpha: 1, hex: '#0080ff' } } },
+        space: { $type: 'dimension', 4: { $value: { value: 16, unit: 'px' } } }
+      },
+      light: {
+        color: {
+          $type: 'color',
+          primary: { $value: '{base.purple.6}', $description: '主色' },
+          mask: { $value: { colorSpace: 'srgb', components: [0, 0, 0], alpha: 0.45 } }
+        },
+        padding: { $value: '{base.space.4}', $type: 'dimension' },
+        shadow: {
+          $value: { color: '#00000014', offsetX: '0px', offsetY: { value: 6, unit: 'px' }, blur: '16px', spread: '0px' },
+          $type: 'shadow'
+        },
+        motion: { $value: '200ms', $type: 'duration' },
+        $extensions: { 'com.example': { ignored: true } }
+      },
+      dark: { color: { primary: { $value: '#6a66f6', $type: 'color' } } }
+    };
+
+    expect(resolveFinexUi(document)).toEqual({
+      light: {
+        'color-primary': '#0080ff',
+        'color-mask': 'rgba(0, 0, 0, 0.45)',
+        padding: '16px',
+        shadow: '0px 6px 16px 0px #00000014'
+      },
+      dark: { 'color-primary': '#6a66f6' }
+    });
+  });
+
+  it('toDtcgTokens：按模式输出 finex key，并记录映射到它的 antd token', () => {
+    const document = toDtcgTokens();
+    const light = document.light as Record<string, { $type: string; $value: unknown; $extensions?: Record<string, unknown> }>;
+
+    expect(Object.keys(light)).toEqual(Object.keys(finexUi.light));
+    expect(light['Brand-Color-Brand-2']).toEqual({
+      $type: 'color',
+      $value: tokens.light.colorPrimary,
+      $extensions: {
+        'farm-design-system': {
+          antdTokens: ['colorPrimary', 'colorPrimaryBorder'],
+          cssVars: ['--farm-color-primary', '--farm-color-primary-border']
+        }
+      }
+    });
+    expect(light['Tips-Grey']).toEqual({ $type: 'color', $value: finexUi.light['Tips-Grey'] });
+  });
+
+  it('导出的文档传回 createTheme({ tokenStudio }) 得到相同的主题（含 overrides）', () => {
+    const bundle = createTheme({ overrides: { dark: { colorPrimary: 'rgba(255, 0, 0, 0.5)' } } });
+    const roundTrip = createTheme({ tokenStudio: toDtcgTokens(bundle) });
+
+    expect(roundTrip.modes).toEqual(bundle.modes);
+    expect(roundTrip.tokens.light).toEqual(bundle.tokens.light);
+    expect(roundTrip.antdTheme.light).toEqual(bundle.antdTheme.light);
+    expect(roundTrip.tokens.dark.colorPrimary).toBe('#ff000080');
+  });
+
+  it('尺寸与阴影使用 DTCG 对象写法，且能解析回 CSS 值', () => {
+    const withSizes = (mode: Record<string, string>) => ({
+      ...mode,
+      'Radius-Radius-2': '8px',
+      'Shadow-Shadow-1': '0px 6px 16px 0px #00000014',
+      'Font-Weight-Strong': '600'
+    });
+    const bundle = createTheme({ finexUi: { light: withSizes(finexUi.light), dark: withSizes(finexUi.dark) } });
+    const document = toDtcgTokens(bundle);
+    const light = document.light as Record<string, { $type: string; $value: unknown }>;
+
+    expect(light['Radius-Radius-2']).toEqual({ $type: 'dimension', $value: { value: 8, unit: 'px' } });
+    expect(light['Shadow-Shadow-1']).toEqual({
+      $type: 'shadow',
+      $value: {
+        color: '#00000014',
+        offsetX: { value: 0, unit: 'px' },
+        offsetY: { value: 6, unit: 'px' },
+        blur: { value: 16, unit: 'px' },
+        spread: { value: 0, unit: 'px' }
+      }
+    });
+    expect(light['Font-Weight-Strong']).toEqual({ $type: 'number', $value: 600 });
+
+    expect(resolveFinexUi(document).light).toEqual(bundle.finexUi.light);
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import React from 'react';
+import { cleanup, render } from '@testing-library/react';
+
+import { createStyles, FarmProvider, useTheme, type FarmProviderProps, type Theme } from '../src/react';
+
+// 用真实的 antd：cssVar 模式下 antd 的 useToken() 固定为第一个模式，mock 掉 antd 就测不出来
+const usePanelStyles = createStyles((theme) => ({
+  panel: { color: theme.colorText, background: theme.colorBgContainer }
+}));
+
+function Probe(props: { onToken: (token: Theme) => void }) {
+  props.onToken(useTheme());
+  const { styles } = usePanelStyles();
+  return <div className={styles.panel} />;
+}
+
+function renderToken(props: FarmProviderProps): Theme {
+  let token: Theme | undefined;
+  render(
+    <FarmProvider {...props}>
+      <Probe onToken={(value) => (token = value)} />
+    </FarmProvider>
+  );
+  return token!;
+}
+
+function styleText(): string {
+  return [...document.head.querySelectorAll('style')].map((node) => node.innerHTML).join('\n');
+}
+
+afterEach(() => {
+  cleanup();
+  document.documentElement.removeAttribute('data-theme');
+});
+
+describe('FarmProvider cssVar（真实 antd）', () => {
+  it('useTheme / createStyles 拿到当前模式的 token，与不开 cssVar 时一致', () => {
+    const dark = renderToken({ mode: 'dark' });
+    const light = renderToken({ mode: 'light' });
+    cleanup();
+    expect(dark.colorBgContainer).not.toBe(light.colorBgContainer);
+
+    const cssVarDark = renderToken({ mode: 'dark', cssVar: true });
+    expect(cssVarDark.colorBgContainer).toBe(dark.colorBgContainer);
+    expect(cssVarDark.colorText).toBe(dark.colorText);
+    expect(styleText()).toContain(`background:${dark.colorBgContainer}`);
+    cleanup();
+
+    const cssVarLight = renderToken({ mode: 'light', cssVar: true });
+    expect(cssVarLight.colorBgContainer).toBe(light.colorBgContainer);
+    expect(styleText()).toContain(`background:${light.colorBgContainer}`);
+  });
+});
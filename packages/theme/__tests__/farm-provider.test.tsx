@@ -1,41 +1,53 @@
 import '@testing-library/jest-dom/vitest';
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { cleanup, render, waitFor } from '@testing-library/react';
+import { act, cleanup, render, waitFor } from '@testing-library/react';
 
-declare global {
-  // eslint-disable-next-line no-var
-  var __ANTD_LAST_CONFIG_PROVIDER_PROPS__: unknown;
-}
+import { getLastAntdTheme, resetAntdMock } from './helpers/antd-mock';
 
-vi.mock('antd', async () => {
-  const React = (await import('react')).default;
-  return {
-    ConfigProvider: (props: unknown) => {
-      globalThis.__ANTD_LAST_CONFIG_PROVIDER_PROPS__ = props;
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      return React.createElement(React.Fragment, null, (props as any).children);
-    },
-    theme: {
-      defaultAlgorithm: 'default',
-      darkAlgorithm: 'dark'
-    }
-  };
-});
+vi.mock('antd', () => import('./helpers/antd-mock'));
 
 const React = (await import('react')).default;
-const { FarmProvider } = await import('../src/react');
-
-function getLastAntdTheme(): any {
-  const props = globalThis.__ANTD_LAST_CONFIG_PROVIDER_PROPS__ as any;
-  return props?.theme;
-}
+const { hydrateRoot } = await import('react-dom/client');
+const { renderToString } = await import('react-dom/server');
+const { FarmProvider, readModeCookie, useFarmThemeMode } = await import('../src/react');
+const { createThemeRegistry } = await import('../src/registry');
+const { antdTheme, cssVarNames, finexUi } = await import('../src/tokens');
+const { token2CSSVar } = await import('@ant-design/cssinjs');
 
 afterEach(() => {
   cleanup();
-  delete (globalThis as any).__ANTD_LAST_CONFIG_PROVIDER_PROPS__;
+  resetAntdMock();
   document.documentElement.removeAttribute('data-theme');
+  document.documentElement.removeAttribute('data-brand');
+  window.localStorage.clear();
+  vi.unstubAllGlobals();
 });
 
+function mockPrefersDark(initial: boolean) {
+  const listeners = new Set<() => void>();
+  const mql = {
+    matches: initial,
+    addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) => listeners.delete(listener)
+  };
+  vi.stubGlobal('matchMedia', () => mql);
+  return {
+    set(matches: boolean) {
+      mql.matches = matches;
+      for (const listener of listeners) listener();
+    }
+  };
+}
+
+function ModeProbe() {
+  (globalThis as any).__FARM_MODE_PROBE__ = useFarmThemeMode();
+  return null;
+}
+
+function getModeProbe(): ReturnType<typeof useFarmThemeMode> {
+  return (globalThis as any).__FARM_MODE_PROBE__;
+}
+
 describe('FarmProvider', () => {
   it('默认 scope=document：设置并卸载还原 html[data-theme]', async () => {
     const { unmount } = render(
@@ -111,14 +123,225 @@ describe('FarmProvider', () => {
 
     const theme = getLastAntdTheme();
     expect(theme).toBeTruthy();
-    expect(theme.algorithm).toBe('override');
-    expect(theme.token?.colorPrimary).toBe('#fff');
-    expect(theme.components?.Button?.colorPrimary).toBe('#000');
+    expect(theme?.algorithm).toBe('override');
+    expect(theme?.token?.colorPrimary).toBe('#fff');
+    expect(theme?.components?.Button?.colorPrimary).toBe('#000');
   });
 
   it('mode=dark 默认选择 dark algorithm', () => {
     render(React.createElement(FarmProvider, { mode: 'dark' }, React.createElement('div', { 'data-testid': 'child' })));
     const theme = getLastAntdTheme();
-    expect(theme.algorithm).toBe('dark');
+    expect(theme?.algorithm).toBe('dark');
+  });
+
+  it('cssVar：antd 变量使用 farm 前缀与固定 key，与 tokensCss 的变量同名', () => {
+    for (const [token, name] of Object.entries(cssVarNames)) {
+      expect(token2CSSVar(token, 'farm')).toBe(name);
+    }
+  });
+
+  it('cssVar：切换模式时交给 antd 的主题不变，各模式的 antd 变量由 [data-theme] 选择', () => {
+    const { container, rerender } = render(React.createElement(FarmProvider, { mode: 'light', cssVar: true }));
+    const lightTheme = getLastAntdTheme();
+    expect(lightTheme?.cssVar).toEqual({ prefix: 'farm', key: 'farm' });
+    expect(lightTheme?.algorithm).toBe('default');
+    const lightCss = container.querySelector('style')?.textContent;
+
+    rerender(React.createElement(FarmProvider, { mode: 'dark', cssVar: true }));
+    expect(getLastAntdTheme()).toBe(lightTheme);
+    expect(container.querySelector('style')?.textContent).toBe(lightCss);
+
+    const darkTheme = antdTheme.dark!;
+    expect(lightCss).toContain(`:root[data-theme="dark"] .farm {\n`);
+    expect(lightCss).toContain(`--farm-color-primary: ${darkTheme.token!.colorPrimary};`);
+    expect(lightCss).toContain(`:root[data-theme="dark"] .farm.ant-btn {\n`);
+    expect(lightCss).toContain(
+      `--farm-button-default-color: ${(darkTheme.components!.Button as Record<string, unknown>).defaultColor};`
+    );
+  });
+
+  it('cssVar：默认关闭，嵌套层继承并使用自己的 key', () => {
+    render(React.createElement(FarmProvider, { mode: 'light' }));
+    expect(getLastAntdTheme()?.cssVar).toBeUndefined();
+
+    render(
+      React.createElement(
+        FarmProvider,
+        { mode: 'light', cssVar: true },
+        React.createElement(FarmProvider, { mode: 'dark' }, React.createElement('div'))
+      )
+    );
+    const nested = getLastAntdTheme()?.cssVar;
+    expect(nested).toMatchObject({ prefix: 'farm', key: expect.stringMatching(/^farm-[\w-]+$/) });
+  });
+
+  it('brand：注入品牌主题与收窄后的 CSS 变量，并设置 html[data-brand]', async () => {
+    const registry = createThemeRegistry({ acme: { overrides: { light: { colorPrimary: '#00b96b' } } } });
+
+    const { container, rerender } = render(
+      React.createElement(FarmProvider, { brand: 'acme', registry }, React.createElement('div', { 'data-testid': 'child' }))
+    );
+
+    await waitFor(() => expect(document.documentElement).toHaveAttribute('data-brand', 'acme'));
+    expect(getLastAntdTheme()?.token?.colorPrimary).toBe('#00b96b');
+    expect(container.querySelector('style')?.textContent).toContain('[data-brand="acme"]');
+
+    rerender(React.createElement(FarmProvider, { registry }, React.createElement('div', { 'data-testid': 'child' })));
+    await waitFor(() => expect(document.documentElement).not.toHaveAttribute('data-brand'));
+    expect(getLastAntdTheme()?.token?.colorPrimary).not.toBe('#00b96b');
+  });
+
+  it('brand：运行时重新注册品牌后自动刷新', async () => {
+    const registry = createThemeRegistry({ acme: {} });
+
+    render(React.createElement(FarmProvider, { brand: 'acme', registry }, React.createElement('div', { 'data-testid': 'child' })));
+
+    registry.register('acme', { overrides: { light: { colorPrimary: '#ff0000' } } });
+    await waitFor(() => expect(getLastAntdTheme()?.token?.colorPrimary).toBe('#ff0000'));
+  });
+
+  it('自定义模式按 bundle.algorithms 选择 algorithm，未知模式直接抛错', () => {
+    const registry = createThemeRegistry({
+      a11y: {
+        finexUi: { ...finexUi, 'high-contrast': finexUi.light },
+        algorithms: { 'high-contrast': ['dark', 'compact'] }
+      }
+    });
+
+    render(
+      React.createElement(FarmProvider, { brand: 'a11y', registry, mode: 'high-contrast' }, React.createElement('div'))
+    );
+    expect(getLastAntdTheme()?.algorithm).toEqual(['dark', 'compact']);
+
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => render(React.createElement(FarmProvider, { mode: 'sepia' }, React.createElement('div')))).toThrow(
+      /不包含模式 "sepia"/
+    );
+    consoleError.mockRestore();
+  });
+
+  it('mode=system：跟随 prefers-color-scheme', async () => {
+    const media = mockPrefersDark(true);
+
+    render(React.createElement(FarmProvider, { mode: 'system' }, React.createElement(ModeProbe)));
+    await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'dark'));
+    expect(getModeProbe().mode).toBe('system');
+    expect(getModeProbe().resolvedMode).toBe('dark');
+    expect(getLastAntdTheme()?.algorithm).toBe('dark');
+
+    act(() => media.set(false));
+    await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'light'));
+  });
+
+  it('useFarmThemeMode：非受控切换并持久化到 localStorage', async () => {
+    window.localStorage.setItem('farm-theme-mode', 'dark');
+
+    render(React.createElement(FarmProvider, { storage: 'localStorage' }, React.createElement(ModeProbe)));
+    await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'dark'));
+
+    act(() => getModeProbe().setMode('light'));
+    await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'light'));
+    expect(window.localStorage.getItem('farm-theme-mode')).toBe('light');
+
+    // 不认识的持久化值会被忽略
+    cleanup();
+    window.localStorage.setItem('farm-theme-mode', 'sepia');
+    render(React.createElement(FarmProvider, { storage: 'localStorage', defaultMode: 'dark' }, React.createElement(ModeProbe)));
+    expect(getModeProbe().mode).toBe('dark');
+  });
+
+  it('useFarmThemeMode：受控模式只回调 onModeChange，自定义 storage 会收到写入', () => {
+    const onModeChange = vi.fn();
+    const storage = { get: () => null, set: vi.fn() };
+
+    render(React.createElement(FarmProvider, { mode: 'light', onModeChange, storage }, React.createElement(ModeProbe)));
+    act(() => getModeProbe().setMode('dark'));
+
+    expect(onModeChange).toHaveBeenCalledWith('dark');
+    expect(storage.set).toHaveBeenCalledWith('dark');
+    expect(getModeProbe().mode).toBe('light');
+  });
+
+  it('hydrate 阶段不覆盖首屏脚本写入的 html[data-theme]', async () => {
+    window.localStorage.setItem('farm-theme-mode', 'dark');
+    document.documentElement.setAttribute('data-theme', 'dark');
+
+    const element = React.createElement(FarmProvider, { storage: 'localStorage', tokensCss: '' }, React.createElement(ModeProbe));
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(element);
+
+    const setAttribute = vi.spyOn(document.documentElement, 'setAttribute');
+    let root: ReturnType<typeof hydrateRoot> | undefined;
+    await act(async () => {
+      root = hydrateRoot(container, element);
+    });
+
+    expect(getModeProbe().resolvedMode).toBe('dark');
+    expect(setAttribute).not.toHaveBeenCalledWith('data-theme', 'light');
+    expect(document.documentElement).toHaveAttribute('data-theme', 'dark');
+    act(() => root?.unmount());
+  });
+
+  it('readModeCookie：从 cookie 文本读取持久化的模式', () => {
+    expect(readModeCookie('a=1; farm-theme-mode=dark; b=2')).toBe('dark');
+    expect(readModeCookie('a=1', 'farm-theme-mode')).toBeNull();
+  });
+
+  it('嵌套：内层可切换模式，全局 CSS 变量只注入一次', () => {
+    const { container } = render(
+      React.createElement(
+        FarmProvider,
+        { mode: 'light' },
+        React.createElement(FarmProvider, { mode: 'dark' }, React.createElement('div', { 'data-testid': 'sidebar' }))
+      )
+    );
+
+    const scopeEl = container.querySelector('[data-farm-scope]');
+    expect(scopeEl).toHaveAttribute('data-theme', 'dark');
+    expect(document.documentElement).toHaveAttribute('data-theme', 'light');
+    // 内层切换模式直接命中全局 [data-theme="dark"]，不需要额外变量
+    expect(container.querySelectorAll('style')).toHaveLength(1);
+    expect(getLastAntdTheme()?.algorithm).toBe('dark');
+  });
+
+  it('嵌套：overrides 只输出收窄到子树的差异变量，并向更深层继承', () => {
+    const { container } = render(
+      React.createElement(
+        FarmProvider,
+        null,
+        React.createElement(
+          FarmProvider,
+          { overrides: { light: { colorPrimary: '#ff0000' }, dark: { colorPrimary: '#00ff00' } } },
+          React.createElement(FarmProvider, { mode: 'dark' }, React.createElement('div', { 'data-testid': 'inner' }))
+        )
+      )
+    );
+
+    const styles = container.querySelectorAll('style');
+    const scopes = container.querySelectorAll('[data-farm-scope]');
+    expect(styles).toHaveLength(3);
+    expect(styles[0]?.textContent).toContain(':root, [data-theme="light"], .light {');
+    expect(styles[1]?.textContent).toBe(
+      `[data-farm-scope="${scopes[0]?.getAttribute('data-farm-scope')}"][data-theme] {\n  --farm-color-primary: #ff0000;\n}`
+    );
+    // 更深层切到 dark：全局 dark 变量会直接命中该元素，因此要补上继承来的 dark 覆写
+    expect(styles[2]?.textContent).toBe(
+      `[data-farm-scope="${scopes[1]?.getAttribute('data-farm-scope')}"][data-theme] {\n  --farm-color-primary: #00ff00;\n}`
+    );
+    expect(getLastAntdTheme()?.token?.colorPrimary).toBe('#00ff00');
+  });
+
+  it('嵌套：未声明模式时跟随外层，setMode 作用于外层', async () => {
+    const { container } = render(
+      React.createElement(
+        FarmProvider,
+        { defaultMode: 'light' },
+        React.createElement(FarmProvider, { overrides: { light: { colorPrimary: '#ff0000' } } }, React.createElement(ModeProbe))
+      )
+    );
+
+    act(() => getModeProbe().setMode('dark'));
+    await waitFor(() => expect(document.documentElement).toHaveAttribute('data-theme', 'dark'));
+    expect(container.querySelector('[data-farm-scope]')).toHaveAttribute('data-theme', 'dark');
   });
 });
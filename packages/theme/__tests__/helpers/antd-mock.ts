@@ -0,0 +1,29 @@
+import React from 'react';
+import type { ConfigProviderProps, ThemeConfig } from 'antd';
+
+/**
+ * antd 的测试替身：`vi.mock('antd', () => import('./helpers/antd-mock'))`
+ * - `ConfigProvider` 只渲染 children，并记下最近一次收到的 props（断言注入给 antd 的主题）
+ * - 算法用字符串代替函数，方便直接比较；`getDesignToken` 原样返回传入的 token
+ */
+let lastConfigProviderProps: ConfigProviderProps | undefined;
+
+export function ConfigProvider(props: ConfigProviderProps) {
+  lastConfigProviderProps = props;
+  return React.createElement(React.Fragment, null, props.children);
+}
+
+export const theme = {
+  defaultAlgorithm: 'default',
+  darkAlgorithm: 'dark',
+  compactAlgorithm: 'compact',
+  getDesignToken: (config?: ThemeConfig) => ({ ...config?.token })
+};
+
+export function getLastAntdTheme(): ConfigProviderProps['theme'] {
+  return lastConfigProviderProps?.theme;
+}
+
+export function resetAntdMock(): void {
+  lastConfigProviderProps = undefined;
+}
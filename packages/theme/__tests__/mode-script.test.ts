@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createThemeModeScript } from '../src/mode-script';
+
+function runScript(script: string) {
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  new Function(script)();
+  return document.documentElement;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  window.localStorage.clear();
+  document.cookie = 'farm-theme-mode=; max-age=0';
+  document.documentElement.removeAttribute('data-theme');
+  document.documentElement.removeAttribute('data-brand');
+});
+
+describe('createThemeModeScript', () => {
+  it('从 localStorage 读取模式，缺失或非法时回退到 defaultMode', () => {
+    window.localStorage.setItem('farm-theme-mode', 'dark');
+    expect(runScript(createThemeModeScript())).toHaveProperty('dataset.theme', 'dark');
+
+    window.localStorage.setItem('farm-theme-mode', 'sepia');
+    expect(runScript(createThemeModeScript({ defaultMode: 'dark' }))).toHaveProperty('dataset.theme', 'dark');
+
+    window.localStorage.clear();
+    expect(runScript(createThemeModeScript())).toHaveProperty('dataset.theme', 'light');
+  });
+
+  it('system 按 prefers-color-scheme 解析', () => {
+    vi.stubGlobal('matchMedia', () => ({ matches: true }));
+    expect(runScript(createThemeModeScript({ defaultMode: 'system' }))).toHaveProperty('dataset.theme', 'dark');
+  });
+
+  it('支持 cookie、自定义 key/modes 与 brand', () => {
+    document.cookie = 'farm-theme-mode=high-contrast';
+    const el = runScript(createThemeModeScript({ storage: 'cookie', modes: ['light', 'dark', 'high-contrast'], brand: 'acme' }));
+    expect(el.getAttribute('data-theme')).toBe('high-contrast');
+    expect(el.getAttribute('data-brand')).toBe('acme');
+
+    window.localStorage.setItem('app-mode', 'dark');
+    expect(runScript(createThemeModeScript({ storageKey: 'app-mode' }))).toHaveProperty('dataset.theme', 'dark');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  androidResourceName,
+  createAndroidColorsXml,
+  createComposeColors,
+  createFlutterColors,
+  createNativeTokenFiles,
+  createSwiftColors
+} from '../src/native';
+import { createTheme } from '../src/tokens';
+
+describe('native tokens', () => {
+  const bundle = createTheme({
+    overrides: { light: { colorPrimary: '#5856d7' }, dark: { colorPrimary: 'rgba(106, 102, 246, 0.5)' } }
+  });
+
+  it('Android：资源名与 CSS 变量同源，颜色为 #AARRGGBB', () => {
+    expect(androidResourceName('colorPrimaryBgHover')).toBe('farm_color_primary_bg_hover');
+    expect(createAndroidColorsXml(bundle, 'light')).toContain('<color name="farm_color_primary">#FF5856D7</color>');
+    expect(createAndroidColorsXml(bundle, 'dark')).toContain('<color name="farm_color_primary">#806A66F6</color>');
+    // 只输出颜色类 token
+    expect(createAndroidColorsXml(bundle)).not.toContain('farm_padding');
+  });
+
+  it('Swift / Compose / Flutter：每个模式一份实例，属性名沿用 antd token', () => {
+    const swift = createSwiftColors(bundle);
+    expect(swift).toContain('public let colorPrimary: Color');
+    expect(swift).toContain('public static let dark = FarmColors(');
+    expect(swift).toContain('colorPrimary: Color(.sRGB, red: 0.3451, green: 0.3373, blue: 0.8431, opacity: 1)');
+
+    const compose = createComposeColors(bundle, { packageName: 'com.example.farm' });
+    expect(compose).toContain('package com.example.farm');
+    expect(compose).toContain('val Light = FarmColors(');
+    expect(compose).toContain('colorPrimary = Color(0x806A66F6)');
+
+    const flutter = createFlutterColors(bundle);
+    expect(flutter).toContain('class FarmColors extends ThemeExtension<FarmColors>');
+    expect(flutter).toContain('static const light = FarmColors(');
+    expect(flutter).toContain('colorPrimary: Color.lerp(colorPrimary, other.colorPrimary, t)!,');
+  });
+
+  it('createNativeTokenFiles：按平台目录输出，类型名可配置', () => {
+    expect(Object.keys(createNativeTokenFiles(bundle, { typeName: 'AcmeColors' }))).toEqual([
+      'ios/AcmeColors.swift',
+      'android/values/acme_colors.xml',
+      'android/values-night/acme_colors.xml',
+      'android/AcmeColors.kt',
+      'flutter/acme_colors.dart'
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { auditContrast, getContrastRatio } from '../src/contrast';
+import { applyPalette, generateColorScale } from '../src/palette';
+import { antdComponentsMap, antdTokenMap, createTheme, finexUi } from '../src/tokens';
+
+function failureKeys(bundle = createTheme()): string[] {
+  return auditContrast(bundle).failures.map((result) => `${result.mode}:${result.pair.foreground}/${result.pair.background}`);
+}
+
+describe('palette', () => {
+  it('generateColorScale：10 阶，light 第 6 阶为种子色，两端分别趋近浅色/深色背景', () => {
+    const light = generateColorScale('#00b96b');
+    expect(light).toHaveLength(10);
+    expect(light[5]).toBe('#00b96b');
+    expect(getContrastRatio(light[0]!, '#ffffff')).toBeLessThan(1.2);
+    expect(getContrastRatio(light[9]!, '#ffffff')).toBeGreaterThan(10);
+
+    const dark = generateColorScale('#00b96b', 'dark');
+    expect(getContrastRatio(dark[0]!, '#000000')).toBeLessThan(2);
+    expect(getContrastRatio(dark[9]!, '#000000')).toBeGreaterThan(12);
+    expect(() => generateColorScale('green')).toThrow('无法解析种子色');
+  });
+
+  it('applyPalette：按 finex key 写回，同 key 的全局/组件 token 同值，其余 token 不变', () => {
+    const bundle = createTheme({ finexUi: applyPalette({ brand: '#00b96b' }) });
+
+    for (const mode of ['light', 'dark']) {
+      const tokens = bundle.tokens[mode]!;
+      expect(tokens.colorPrimary).not.toBe(createTheme().tokens[mode]!.colorPrimary);
+      // colorPrimary 与 colorPrimaryBorder 在设计源里是同一个 finex key
+      expect(antdTokenMap.colorPrimaryBorder).toBe(antdTokenMap.colorPrimary);
+      expect(tokens.colorPrimaryBorder).toBe(tokens.colorPrimary);
+      expect(bundle.antdTheme[mode]!.components?.Tabs?.inkBarColor).toBe(tokens.colorPrimary);
+      expect(tokens.colorText).toBe(createTheme().tokens[mode]!.colorText);
+    }
+    expect(antdComponentsMap.Tabs?.inkBarColor).toBe(antdTokenMap.colorPrimary);
+    expect(Object.keys(applyPalette({ brand: '#00b96b' }))).toEqual(Object.keys(finexUi));
+  });
+
+  it('applyPalette：实底与文字色满足 AA，不引入新的对比度问题', () => {
+    const baseline = new Set(failureKeys());
+    const bundle = createTheme({
+      finexUi: applyPalette({ brand: '#1677ff', success: '#52c41a', warning: '#faad14', error: '#ff4d4f' })
+    });
+
+    // #1677ff 上的白字只有 4.1:1，会被压暗到 4.5:1 以上
+    expect(getContrastRatio('#ffffff', bundle.tokens.light!.colorPrimary!)).toBeGreaterThanOrEqual(4.5);
+    expect(failureKeys(bundle).filter((key) => !baseline.has(key))).toEqual([]);
+    expect(failureKeys(bundle).filter((key) => key.startsWith('light:'))).toEqual([]);
+  });
+});
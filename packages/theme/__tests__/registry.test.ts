@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { createThemeRegistry, DEFAULT_BRAND } from '../src/registry';
+import { antdTheme } from '../src/tokens';
+
+describe('createThemeRegistry', () => {
+  it('内置 default 品牌等价于内置主题', () => {
+    const registry = createThemeRegistry();
+    expect(registry.brands()).toEqual([DEFAULT_BRAND]);
+    expect(registry.get().antdTheme.light.token.colorPrimary).toBe(antdTheme.light.token.colorPrimary);
+  });
+
+  it('注册品牌后可按名称获取，未注册的品牌直接抛错', () => {
+    const registry = createThemeRegistry({
+      acme: { overrides: { light: { colorPrimary: '#00b96b' } } }
+    });
+
+    expect(registry.get('acme').tokens.light.colorPrimary).toBe('#00b96b');
+    expect(() => registry.get('unknown')).toThrow(/未注册的品牌/);
+    expect(() => registry.unregister(DEFAULT_BRAND)).toThrow();
+  });
+
+  it('register/unregister 会通知订阅者', () => {
+    const registry = createThemeRegistry();
+    let calls = 0;
+    const unsubscribe = registry.subscribe(() => {
+      calls += 1;
+    });
+
+    registry.register('acme');
+    registry.unregister('acme');
+    unsubscribe();
+    registry.register('other');
+
+    expect(calls).toBe(2);
+    expect(registry.has('acme')).toBe(false);
+  });
+
+  it('createTokensCss 按品牌收窄选择器', () => {
+    const registry = createThemeRegistry({
+      acme: { overrides: { dark: { colorPrimary: '#123456' } } }
+    });
+    const css = registry.createTokensCss();
+
+    expect(css).toContain(':root, [data-theme="light"], .light {');
+    expect(css).toContain('[data-brand="acme"][data-theme="dark"], [data-brand="acme"] [data-theme="dark"] {');
+    expect(css.match(/Auto-generated/g)).toHaveLength(1);
+    expect(css).toContain('--farm-color-primary: #123456;');
+  });
+});
@@ -0,0 +1,47 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+
+import { createStyles, FarmProvider, FarmThemeScript } from '../src/react';
+import { createStyleCollector } from '../src/server';
+
+const useStyles = createStyles((theme) => ({
+  root: { color: theme.colorPrimary }
+}));
+
+function Demo() {
+  const { styles } = useStyles();
+  return <div className={styles.root}>hello</div>;
+}
+
+describe('SSR', () => {
+  it('createStyleCollector 收集 FarmProvider + createStyles 的样式', () => {
+    const collector = createStyleCollector();
+    const html = renderToString(
+      <collector.StyleRegistry>
+        <FarmProvider>
+          <Demo />
+        </FarmProvider>
+      </collector.StyleRegistry>
+    );
+
+    const className = /class="(farm-root-[^"]+)"/.exec(html)?.[1];
+    expect(className).toBeTruthy();
+
+    // once：流式渲染时只返回新增的样式
+    expect(collector.extractStyleText({ once: true })).toContain(`.${className}`);
+    expect(collector.extractStyleText({ once: true })).not.toContain(`.${className}`);
+
+    const tags = collector.extractStyleTags();
+    expect(tags).toMatch(/^<style /);
+    expect(tags).toContain(`.${className}`);
+    expect(collector.extractStyleText()).not.toContain('<style');
+  });
+
+  it('FarmThemeScript 输出内联脚本，且不会被配置里的字符串提前闭合', () => {
+    const html = renderToString(<FarmThemeScript storage="cookie" brand="</script><b>" nonce="abc" />);
+    expect(html).toMatch(/^<script nonce="abc">\(function\(\)\{try\{/);
+    expect(html).not.toContain('</script><b>');
+  });
+});
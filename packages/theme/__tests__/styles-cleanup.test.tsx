@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import React from 'react';
+import { cleanup, render } from '@testing-library/react';
+
+import { createGlobalStyle, createStyles, FarmProvider } from '../src/react';
+
+const useBoxStyles = createStyles((_theme, params: { width: number }) => ({
+  box: { width: params.width }
+}));
+
+function Box(props: { width: number }) {
+  const { styles } = useBoxStyles(props);
+  return <div className={styles.box} />;
+}
+
+const fadeIn = { from: { opacity: 0 }, to: { opacity: 1 } };
+
+const useFadeStyles = createStyles((_theme, params: { duration: number }, { keyframes }) => ({
+  fade: { animation: `${keyframes('fade', fadeIn)} ${params.duration}ms` }
+}));
+
+function Fade(props: { duration: number }) {
+  const { styles } = useFadeStyles(props);
+  return <div className={styles.fade} />;
+}
+
+const GlobalStyle = createGlobalStyle(() => ({ '.farm-cleanup-probe': { display: 'none' } }));
+
+function styleText(): string {
+  return [...document.head.querySelectorAll('style')].map((node) => node.innerHTML).join('\n');
+}
+
+describe('createStyles / createGlobalStyle 样式清理', () => {
+  it('清理依赖的 cssinjs 约定与真实输出一致：`<style data-css-hash>`，keyframes 单独插入且 id 为 `_effect-<动画名>`', () => {
+    render(
+      <FarmProvider>
+        <Fade duration={300} />
+      </FarmProvider>
+    );
+    const marked = [...document.head.querySelectorAll('style[data-css-hash]')];
+    expect(marked.filter((node) => node.innerHTML.includes('300ms'))).toHaveLength(1);
+
+    const keyframesNodes = marked.filter((node) => node.getAttribute('data-css-hash')!.startsWith('_effect-'));
+    expect(keyframesNodes).toHaveLength(1);
+    const animationName = keyframesNodes[0]!.getAttribute('data-css-hash')!.slice('_effect-'.length);
+    expect(animationName).toMatch(/^css-[\w-]+-farm-fade-\w+$/);
+    expect(keyframesNodes[0]!.innerHTML).toContain(`@keyframes ${animationName}{`);
+
+    cleanup();
+    expect(keyframesNodes[0]!.isConnected).toBe(false);
+    expect(styleText()).not.toContain('300ms');
+  });
+
+  it('最后一个使用者卸载后移除对应的 <style>', () => {
+    const view = render(
+      <FarmProvider>
+        <Box width={100} />
+        <Box width={100} />
+        <GlobalStyle />
+      </FarmProvider>
+    );
+    expect(styleText()).toContain('width:100px;');
+    expect(styleText()).toContain('.farm-cleanup-probe{display:none;}');
+
+    // 仍有使用者时保留
+    view.rerender(
+      <FarmProvider>
+        <Box width={100} />
+        <Box width={200} />
+      </FarmProvider>
+    );
+    expect(styleText()).toContain('width:100px;');
+    expect(styleText()).toContain('width:200px;');
+    expect(styleText()).not.toContain('.farm-cleanup-probe');
+
+    view.rerender(
+      <FarmProvider>
+        <Box width={200} />
+      </FarmProvider>
+    );
+    expect(styleText()).not.toContain('width:100px;');
+    expect(styleText()).toContain('width:200px;');
+
+    cleanup();
+    expect(styleText()).not.toContain('width:200px;');
+  });
+
+  it('keyframes 被多份样式共用时，最后一个使用者卸载后才移除', () => {
+    const view = render(
+      <FarmProvider>
+        <Fade duration={100} />
+        <Fade duration={200} />
+      </FarmProvider>
+    );
+    expect(styleText()).toContain('@keyframes');
+    expect(styleText()).toContain('100ms');
+
+    view.rerender(
+      <FarmProvider>
+        <Fade duration={200} />
+      </FarmProvider>
+    );
+    expect(styleText()).not.toContain('100ms');
+    expect(styleText()).toContain('@keyframes');
+
+    cleanup();
+    expect(styleText()).not.toContain('200ms');
+    expect(styleText()).not.toContain('@keyframes');
+  });
+});
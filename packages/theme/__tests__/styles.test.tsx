@@ -0,0 +1,179 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+
+import { createGlobalStyle, createStyles, FarmProvider, type CssVarParams, type FarmProviderProps } from '../src/react';
+import { createStyleCollector } from '../src/server';
+
+function renderStyles(element: React.ReactElement, props: FarmProviderProps = {}): { html: string; css: string } {
+  const collector = createStyleCollector();
+  const html = renderToString(
+    <collector.StyleRegistry>
+      <FarmProvider {...props}>{element}</FarmProvider>
+    </collector.StyleRegistry>
+  );
+  return { html, css: collector.extractStyleText() };
+}
+
+const useCardStyles = createStyles((theme, _params, { keyframes, responsive }) => {
+  const fadeIn = keyframes('fade-in', { from: { opacity: 0 }, to: { opacity: 1 } });
+  return {
+    card: {
+      animation: `${fadeIn} ${theme.motionDurationMid}`,
+      padding: theme.paddingSM,
+      [responsive.md]: { padding: theme.paddingLG },
+      [responsive.down('sm')]: { display: 'none' }
+    }
+  };
+});
+
+const useBadgeStyles = createStyles(() => ({ badge: { display: 'inline-flex' } }));
+
+function Card() {
+  const { styles, cx } = useCardStyles();
+  const badge = useBadgeStyles();
+  return <div className={cx(styles.card, badge.styles.badge)}>card</div>;
+}
+
+const usePanelStyles = createStyles(
+  (theme, params: CssVarParams<{ gap: number; align?: 'left' | 'center' }>) => ({
+    panel: { padding: params.gap, color: theme.colorText },
+    title: { textAlign: params.align as 'left', marginBottom: `calc(${params.gap} / 2)` },
+    footer: { display: 'flex' }
+  }),
+  { cssVarParams: true }
+);
+
+function Panel(props: { gap: number; align?: 'left' | 'center' }) {
+  const { styles, vars } = usePanelStyles(props);
+  return (
+    <div className={styles.panel} style={vars.panel}>
+      <h3 className={styles.title} style={vars.title}>
+        title
+      </h3>
+      <footer className={styles.footer} style={vars.footer} />
+    </div>
+  );
+}
+
+declare module '../src/react' {
+  interface FarmComponentSlots {
+    Tag: 'tag' | 'label';
+  }
+}
+
+const useTagStyles = createStyles(
+  (theme) => ({
+    tag: { height: 24, color: theme.colorText, '&:hover': { color: theme.colorPrimary, opacity: 0.8 } },
+    label: { fontSize: theme.fontSizeSM }
+  }),
+  { name: 'Tag' }
+);
+
+function Tag() {
+  const { styles } = useTagStyles();
+  return (
+    <span className={styles.tag}>
+      <span className={styles.label}>tag</span>
+    </span>
+  );
+}
+
+const useWarningStyles = createStyles(
+  (theme, _params, { componentToken }) => ({ warning: { background: componentToken.warningBg ?? theme.colorBgContainer } }),
+  { name: 'Button' }
+);
+
+function Warning() {
+  const { styles } = useWarningStyles();
+  return <button className={styles.warning} />;
+}
+
+const GlobalStyle = createGlobalStyle<{ linkColor?: string }>((theme, props, { keyframes }) => ({
+  a: { color: props.linkColor ?? theme.colorLink },
+  '.farm-spin': { animationName: keyframes('spin', { to: { transform: 'rotate(360deg)' } }) }
+}));
+
+describe('createStyles / createGlobalStyle', () => {
+  it('keyframes 与 responsive：动画名带主题 hash，断点来自 antd screen token', () => {
+    const { css } = renderStyles(<Card />);
+
+    const animation = /animation:(\S+) /.exec(css)?.[1];
+    expect(animation).toMatch(/^css-[\w-]+-farm-fade-in-\w+$/);
+    expect(css).toContain(`@keyframes ${animation}{from{opacity:0;}to{opacity:1;}}`);
+    expect(css).toContain('@media (min-width: 768px){');
+    expect(css).toContain('@media (min-width: 0px) and (max-width: 767px){');
+    // 同一主题下名字稳定
+    expect(renderStyles(<Card />).css).toContain(`@keyframes ${animation}{`);
+  });
+
+  it('多个 createStyles 各自注册，互不覆盖', () => {
+    const { html, css } = renderStyles(<Card />);
+    const [card, badge] = /class="([^"]+)"/.exec(html)![1]!.split(' ');
+    expect(css).toContain(`.${card}`);
+    expect(css).toContain(`.${badge}{display:inline-flex;}`);
+  });
+
+  it('createGlobalStyle：document 范围为全局规则，wrap 范围收窄到容器', () => {
+    const global = renderStyles(<GlobalStyle linkColor="#ff0000" />).css;
+    expect(global).toContain('a{color:#ff0000;}');
+    expect(global).toContain('.farm-spin{animation-name:farm-spin-');
+    expect(global).toMatch(/@keyframes farm-spin-\w+\{to\{transform:rotate\(360deg\);\}\}/);
+
+    const { html, css } = renderStyles(<GlobalStyle />, { scope: 'wrap' });
+    const scopeId = /data-farm-scope="([^"]+)"/.exec(html)?.[1];
+    expect(css).toContain(`[data-farm-scope="${scopeId}"] a{color:`);
+    expect(css).not.toMatch(/(^|})a\{/);
+  });
+
+  it('cssVarParams：参数变化不产生新规则，参数值经 vars 下发到对应 slot', () => {
+    const small = renderStyles(<Panel gap={8} align="center" />);
+    const large = renderStyles(<Panel gap={24} />);
+
+    const classOf = (html: string) => [...html.matchAll(/class="([^"]+)"/g)].map((match) => match[1]);
+    expect(classOf(large.html)).toEqual(classOf(small.html));
+    expect(large.css).toBe(small.css);
+    expect(small.css).toContain('padding:var(--farm-param-gap);');
+    expect(small.css).toContain('margin-bottom:calc(var(--farm-param-gap) / 2);');
+
+    expect(small.html).toContain('style="--farm-param-gap:8px"');
+    expect(small.html).toContain('style="--farm-param-gap:8px;--farm-param-align:center"');
+    // 未传的参数置为 initial，不继承外层同名变量
+    expect(large.html).toContain('style="--farm-param-gap:24px;--farm-param-align:initial"');
+    // 没用到参数的 slot 不带 inline style
+    expect(small.html).toMatch(/<footer class="[^"]+"><\/footer>/);
+  });
+
+  it('FarmProvider components：按组件名与 slot 合并覆写，嵌套层叠加在外层之上', () => {
+    const { css } = renderStyles(
+      <>
+        <Tag />
+        <FarmProvider components={{ Tag: { label: { fontWeight: 600 } } }}>
+          <Tag />
+        </FarmProvider>
+      </>,
+      {
+        components: {
+          Tag: { tag: { height: 32, '&:hover': { opacity: 1 } }, label: (theme) => ({ fontSize: theme.fontSizeLG }) }
+        }
+      }
+    );
+
+    expect(css).toMatch(/\.farm-tag-\w+\{height:32px;color:[^;]+;\}/);
+    expect(css).toMatch(/\.farm-tag-\w+:hover\{color:[^;]+;opacity:1;\}/);
+    expect(css).toMatch(/\.farm-label-\w+\{font-size:16px;\}/);
+    expect(css).toMatch(/\.farm-label-\w+\{font-size:16px;font-weight:600;\}/);
+    expect(css).not.toContain('height:24px;');
+  });
+
+  it('componentToken：读取当前 antd 主题的组件 token（含 Finex 自定义 token 与 antdTheme 覆写）', () => {
+    expect(renderStyles(<Warning />).css).toMatch(/\.farm-warning-\w+\{background:#ffffff;\}/);
+    expect(renderStyles(<Warning />, { mode: 'dark' }).css).toMatch(/\.farm-warning-\w+\{background:#484848;\}/);
+
+    const overridden = renderStyles(<Warning />, {
+      antdTheme: { components: { Button: { warningBg: '#fafafa' } as Record<string, string> } }
+    });
+    expect(overridden.css).toMatch(/\.farm-warning-\w+\{background:#fafafa;\}/);
+  });
+});
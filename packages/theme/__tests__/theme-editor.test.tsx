@@ -0,0 +1,114 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+
+import { getLastAntdTheme, resetAntdMock } from './helpers/antd-mock';
+
+vi.mock('antd', () => import('./helpers/antd-mock'));
+
+const React = (await import('react')).default;
+const { FarmProvider, ThemeEditor } = await import('../src/react');
+const { antdTheme } = await import('../src/tokens');
+
+afterEach(() => {
+  cleanup();
+  resetAntdMock();
+  document.documentElement.removeAttribute('data-theme');
+});
+
+describe('ThemeEditor', () => {
+  it('按前缀分组列出 token，每个模式一列', () => {
+    const { container } = render(React.createElement(FarmProvider, null, React.createElement(ThemeEditor)));
+
+    const summaries = [...container.querySelectorAll('summary')].map((el) => el.textContent);
+    expect(summaries.some((text) => text?.startsWith('colorPrimary'))).toBe(true);
+    expect(summaries.some((text) => text?.startsWith('colorBg'))).toBe(true);
+
+    expect(screen.getByLabelText('colorPrimary (light)')).toHaveValue(antdTheme.light.token.colorPrimary);
+    expect(screen.getByLabelText('colorPrimary (dark)')).toHaveValue(antdTheme.dark.token.colorPrimary);
+  });
+
+  it('修改即时作用于 antd 主题与 --farm-* 变量，并导出 createTheme 配置', () => {
+    const onChange = vi.fn();
+    const { container } = render(
+      React.createElement(FarmProvider, null, React.createElement(ThemeEditor, { onChange, defaultExportFormat: 'json' }))
+    );
+
+    fireEvent.change(screen.getByLabelText('colorPrimary (light)'), { target: { value: '#ff0000' } });
+
+    expect(onChange).toHaveBeenLastCalledWith({ light: { colorPrimary: '#ff0000' } });
+    expect(getLastAntdTheme()?.token?.colorPrimary).toBe('#ff0000');
+    expect(container.querySelector('style')?.textContent).toContain('--farm-color-primary: #ff0000;');
+    expect(JSON.parse(container.querySelector('pre')?.textContent ?? '')).toEqual({
+      overrides: { light: { colorPrimary: '#ff0000' } }
+    });
+
+    fireEvent.change(screen.getByLabelText('导出格式'), { target: { value: 'ts' } });
+    expect(container.querySelector('pre')?.textContent).toContain('export const theme = createTheme(themeOptions);');
+
+    fireEvent.click(screen.getByRole('button', { name: '重置' }));
+    expect(onChange).toHaveBeenLastCalledWith(undefined);
+    expect(getLastAntdTheme()?.token?.colorPrimary).toBe(antdTheme.light.token.colorPrimary);
+    expect(screen.getByLabelText('colorPrimary (light)')).toHaveValue(antdTheme.light.token.colorPrimary);
+  });
+
+  it('输入到一半的值不写入覆写；失焦时丢弃无效值，清空则撤销覆写', () => {
+    const onChange = vi.fn();
+    render(React.createElement(FarmProvider, null, React.createElement(ThemeEditor, { onChange })));
+    const input = screen.getByLabelText('colorPrimary (light)');
+
+    fireEvent.change(input, { target: { value: '#5' } });
+    expect(onChange).not.toHaveBeenCalled();
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+    expect(getLastAntdTheme()?.token?.colorPrimary).toBe(antdTheme.light.token.colorPrimary);
+
+    fireEvent.change(input, { target: { value: '#00b96b' } });
+    expect(onChange).toHaveBeenLastCalledWith({ light: { colorPrimary: '#00b96b' } });
+    expect(input).not.toHaveAttribute('aria-invalid');
+
+    fireEvent.change(input, { target: { value: 'rgba(0, 0' } });
+    fireEvent.blur(input);
+    expect(input).toHaveValue('#00b96b');
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    fireEvent.change(input, { target: { value: '' } });
+    fireEvent.blur(input);
+    expect(onChange).toHaveBeenLastCalledWith(undefined);
+    expect(input).toHaveValue(antdTheme.light.token.colorPrimary);
+  });
+
+  it('复制导出片段：成功与失败（含没有 Clipboard API）都在编辑器里提示', async () => {
+    const writeText = vi.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('denied'));
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+    render(React.createElement(FarmProvider, null, React.createElement(ThemeEditor)));
+    const copy = screen.getByRole('button', { name: '复制' });
+
+    fireEvent.click(copy);
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('已复制'));
+    expect(writeText).toHaveBeenLastCalledWith(screen.getByText(/createTheme/, { selector: 'pre' }).textContent);
+
+    fireEvent.click(copy);
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('复制失败'));
+
+    // 片段变化后旧的结果不再显示
+    fireEvent.change(screen.getByLabelText('colorPrimary (light)'), { target: { value: '#ff0000' } });
+    expect(screen.getByRole('status')).toBeEmptyDOMElement();
+
+    Object.defineProperty(navigator, 'clipboard', { value: undefined, configurable: true });
+    fireEvent.click(copy);
+    expect(screen.getByRole('status')).toHaveTextContent('复制失败');
+    Reflect.deleteProperty(navigator, 'clipboard');
+  });
+
+  it('搜索只保留匹配的 token；在 FarmProvider 外使用直接抛错', () => {
+    render(React.createElement(FarmProvider, null, React.createElement(ThemeEditor)));
+    fireEvent.change(screen.getByLabelText('搜索 token'), { target: { value: 'controlItemBg' } });
+    expect(screen.getByLabelText('controlItemBgHover (light)')).toBeInTheDocument();
+    expect(screen.queryByLabelText('colorPrimary (light)')).not.toBeInTheDocument();
+    cleanup();
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => render(React.createElement(ThemeEditor))).toThrow('ThemeEditor 必须在 FarmProvider 内使用');
+    vi.restoreAllMocks();
+  });
+});
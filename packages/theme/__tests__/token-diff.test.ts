@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffFinexUi, formatFinexUiDiff, hasFinexUiChanges } from '../src/token-diff';
+import { finexUi } from '../src/tokens';
+
+const maps = {
+  antdTokenMap: { colorPrimary: 'Brand', colorText: 'Text', colorTextSecondary: 'Text-Old' },
+  antdComponentsMap: { Button: { primaryColor: 'Text', colorPrimary: 'Brand' } }
+};
+
+describe('token diff', () => {
+  it('识别新增/删除/重命名/改值，并反查受影响的 antd token', () => {
+    const before = {
+      light: { Brand: '#5856d7', Text: '#000000', 'Text-Old': '#686868', Gone: '#111111' },
+      dark: { Brand: '#6a66f6', Text: '#ffffff', 'Text-Old': '#a7a7a7', Gone: '#222222' }
+    };
+    const after = {
+      light: { Brand: '#4f46e5', Text: '#000000', 'Text-Secondary': '#686868', Fresh: '#333333' },
+      dark: { Brand: '#6a66f6', Text: '#ffffff', 'Text-Secondary': '#a7a7a7', Fresh: '#444444' },
+      'high-contrast': { Brand: '#0000ff', Text: '#000000', 'Text-Secondary': '#000000', Fresh: '#000000' }
+    };
+
+    const diff = diffFinexUi(before, after, maps);
+
+    expect(diff.modes).toEqual({ added: ['high-contrast'], removed: [] });
+    expect(diff.changed).toEqual([
+      {
+        key: 'Brand',
+        changes: [{ mode: 'light', before: '#5856d7', after: '#4f46e5' }],
+        affects: { tokens: ['colorPrimary'], components: ['Button.colorPrimary'] }
+      }
+    ]);
+    expect(diff.renamed).toEqual([
+      { from: 'Text-Old', to: 'Text-Secondary', affects: { tokens: ['colorTextSecondary'], components: [] } }
+    ]);
+    expect(diff.removed.map((item) => item.key)).toEqual(['Gone']);
+    expect(diff.added).toEqual([{ key: 'Fresh', values: { light: '#333333', dark: '#444444', 'high-contrast': '#000000' } }]);
+    expect(diff.affected).toEqual({ tokens: ['colorPrimary', 'colorTextSecondary'], components: ['Button'] });
+  });
+
+  it('值相同的多个 key 不会被误判为重命名', () => {
+    const diff = diffFinexUi(
+      { light: { A: '#fff', B: '#fff' }, dark: { A: '#000', B: '#000' } },
+      { light: { C: '#fff', D: '#fff' }, dark: { C: '#000', D: '#000' } },
+      maps
+    );
+    expect(diff.renamed).toEqual([]);
+    expect(diff.removed.map((item) => item.key)).toEqual(['A', 'B']);
+    expect(diff.added.map((item) => item.key)).toEqual(['C', 'D']);
+  });
+
+  it('输出 Markdown / JSON；相同快照没有变更', () => {
+    expect(hasFinexUiChanges(diffFinexUi(finexUi, finexUi))).toBe(false);
+    expect(formatFinexUiDiff(diffFinexUi(finexUi, finexUi))).toContain('无变更');
+
+    const diff = diffFinexUi(
+      { light: { Brand: '#5856d7' }, dark: { Brand: '#6a66f6' } },
+      { light: { Brand: '#4f46e5' }, dark: { Brand: '#6a66f6' } },
+      maps
+    );
+    const markdown = formatFinexUiDiff(diff, 'markdown');
+    expect(markdown).toContain('- 新增 0 / 删除 0 / 重命名 0 / 改值 1');
+    expect(markdown).toContain('| `Brand` | light | `#5856d7` | `#4f46e5` | `colorPrimary`, `Button.colorPrimary` |');
+    expect(JSON.parse(formatFinexUiDiff(diff, 'json'))).toEqual(diff);
+  });
+});
@@ -0,0 +1,164 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  antdComponentSizes,
+  antdComponentsMap,
+  antdTheme,
+  antdTokenMap,
+  createTheme,
+  createTokensCss,
+  cssVarNames,
+  extendTheme,
+  finexUi,
+  formatThemeOptions,
+  getTokenCategory,
+  isAntdTokenName,
+  resolveFinexUi,
+  tailwindColors,
+  themeModes,
+  tokens
+} from '../src/tokens';
+
+function readTokenStudioExport(): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(path.resolve(__dirname, '../scripts/finex-ui.json'), 'utf8')) as Record<string, unknown>;
+}
+
+describe('tokens', () => {
+  it('Token Studio 的非颜色 token 归一化为 CSS 值', () => {
+    const group = {
+      Radius: { 'Radius-2': { value: '{Size.2}', type: 'borderRadius' } },
+      Font: {
+        Strong: { value: 'Semi Bold', type: 'fontWeights' },
+        Family: { value: ['Inter', 'sans-serif'], type: 'fontFamilies' }
+      },
+      Typography: { Title: { value: { fontSize: '18', lineHeight: '150%' }, type: 'typography' } },
+      Shadow: { '1': { value: { x: 0, y: 6, blur: 16, spread: 0, color: '#00000014', type: 'dropShadow' }, type: 'boxShadow' } }
+    };
+    const finex = resolveFinexUi({
+      'base/base': { Size: { '2': { value: '8', type: 'dimension' } } },
+      'Demo/Light': group,
+      'Demo/Dark': group
+    });
+
+    expect(finex.light).toEqual({
+      'Radius-Radius-2': '8px',
+      'Font-Strong': '600',
+      'Font-Family': 'Inter, sans-serif',
+      'Typography-Title-fontSize': '18px',
+      'Typography-Title-lineHeight': '1.5',
+      'Shadow-1': '0px 6px 16px 0px #00000014'
+    });
+    expect(finex.dark).toEqual(finex.light);
+  });
+
+  it('Tailwind preset 按 token 分类输出', () => {
+    expect(getTokenCategory('colorPrimary')).toBe('color');
+    expect(getTokenCategory('controlItemBgHover')).toBe('color');
+    expect(getTokenCategory('paddingLG')).toBe('spacing');
+    expect(getTokenCategory('borderRadiusSM')).toBe('borderRadius');
+
+    expect(tailwindColors['color-primary']).toBe('var(--farm-color-primary)');
+    expect(tailwindColors).not.toHaveProperty('border-radius');
+  });
+
+  it('Token Studio 导出里的其它主题分组会被识别为模式', () => {
+    const raw = readTokenStudioExport();
+    const theme = createTheme({
+      tokenStudio: {
+        ...raw,
+        'Finex Color Guidelines/HighContrast': raw['Finex Color Guidelines/Light'],
+        'Finex Color Guidelines/Dimmed': raw['Finex Color Guidelines/Dark']
+      },
+      algorithms: { 'high-contrast': ['default', 'compact'] }
+    });
+
+    expect(themeModes).toEqual(['light', 'dark']);
+    expect(theme.modes).toEqual(['light', 'dark', 'high-contrast', 'dimmed']);
+    expect(theme.tokens['high-contrast']?.colorPrimary).toBe(tokens.light.colorPrimary);
+    expect(theme.antdTheme.dimmed?.token.colorPrimary).toBe(antdTheme.dark.token.colorPrimary);
+    expect(theme.algorithms).toEqual({
+      light: ['default'],
+      dark: ['dark'],
+      'high-contrast': ['default', 'compact'],
+      dimmed: ['dark']
+    });
+  });
+
+  it('createTokensCss 为每个模式输出一个选择器块', () => {
+    const theme = createTheme({
+      finexUi: { ...finexUi, 'high-contrast': { ...finexUi.light, 'Brand-Color-Brand-2': '#000000' } },
+      overrides: { 'high-contrast': { colorText: '#000000' } }
+    });
+
+    const css = createTokensCss({ vars: theme.cssVars });
+    expect(css).toContain('[data-theme="high-contrast"] {\n  --farm-color-primary: #000000;');
+    expect(css).toMatch(/\[data-theme="high-contrast"\] \{[^}]*--farm-color-text: #000000;/);
+    // 只有内置的 light/dark 带类名；其它模式的类名需要显式声明，避免与业务 class 冲突
+    expect(css).toContain('[data-theme="dark"], .dark {');
+    expect(css).not.toContain('.high-contrast');
+    expect(createTokensCss({ vars: theme.cssVars, selectors: { 'high-contrast': '.high-contrast' } })).toContain('.high-contrast {');
+
+    const branded = createTokensCss({ vars: theme.cssVars, brand: 'acme', selectors: { dark: '.acme-dark' } });
+    expect(branded).toContain('[data-brand="acme"][data-theme="high-contrast"], [data-brand="acme"] [data-theme="high-contrast"] {');
+    expect(branded).toContain('.acme-dark {');
+  });
+
+  it('antdTheme 带默认圆角与组件尺寸 token，且可按模式覆写', () => {
+    for (const mode of themeModes) {
+      expect(antdTheme[mode]!.token.borderRadius).toBe(8);
+      expect(antdTheme[mode]!.components?.Button).toMatchObject(antdComponentSizes.Button);
+      expect(antdTheme[mode]!.components?.Modal).toMatchObject(antdComponentSizes.Modal);
+    }
+
+    const theme = createTheme({ antd: { light: { borderRadius: 4, components: { Button: { largeHeight: 44 } } } } });
+    expect(theme.antdTheme.light.token.borderRadius).toBe(4);
+    expect(theme.antdTheme.light.components?.Button).toMatchObject({ largeHeight: 44, cancelLargeHeight: 52 });
+    expect(theme.antdTheme.dark.components?.Button?.largeHeight).toBe(48);
+  });
+
+  it('extendTheme 在已有主题上叠加覆写，未覆写部分保持不变', () => {
+    const base = createTheme({ overrides: { light: { colorPrimary: '#00b96b' } } });
+    // @ts-expect-error 未声明的 token 在类型层面就会报错，运行时同样被忽略
+    const extended = extendTheme(base, { overrides: { light: { colorText: '#111111', notAToken: '1px' } } });
+
+    expect(extended.tokens.light.colorPrimary).toBe('#00b96b');
+    expect(extended.tokens.light).not.toHaveProperty('notAToken');
+    expect(extended.antdTheme.light.token.colorText).toBe('#111111');
+    expect(extended.cssVars.light['--farm-color-text']).toBe('#111111');
+    expect(extended.cssVars.dark).toEqual(base.cssVars.dark);
+  });
+
+  it('token-names.ts 与映射表同步（类型与运行时数据一致）', () => {
+    const source = fs.readFileSync(path.resolve(__dirname, '../src/adapters/token-names.ts'), 'utf8');
+    const union = (name: string) => {
+      const body = new RegExp(`export type ${name} =([^;]*);`).exec(source)?.[1] ?? '';
+      return [...body.matchAll(/'([^']+)'/g)].map((match) => match[1]);
+    };
+
+    expect(union('AntdTokenName')).toEqual(Object.keys(antdTokenMap));
+    expect(union('FinexKey')).toEqual(Object.keys(finexUi.light));
+    for (const [token, varName] of Object.entries(cssVarNames)) {
+      expect(source).toContain(`  ${token}: '${varName}';`);
+    }
+    for (const [component, tokenMap] of Object.entries(antdComponentsMap)) {
+      const body = new RegExp(`  ${component}:([^;]*);`).exec(source)?.[1] ?? '';
+      expect([...body.matchAll(/'([^']+)'/g)].map((match) => match[1])).toEqual(Object.keys(tokenMap));
+    }
+
+    expect(isAntdTokenName('colorPrimary')).toBe(true);
+    expect(isAntdTokenName('colorPrimry')).toBe(false);
+  });
+
+  it('formatThemeOptions 导出可直接粘贴的 JSON / TS 配置', () => {
+    const options = { overrides: { light: { colorPrimary: '#ff0000' } } };
+    expect(JSON.parse(formatThemeOptions(options, 'json'))).toEqual(options);
+
+    const ts = formatThemeOptions(options);
+    expect(ts).toContain("import { createTheme, type CreateThemeOptions } from '@farm-design-system/theme';");
+    expect(ts).toContain('"colorPrimary": "#ff0000"');
+    expect(ts).toContain('export const theme = createTheme(themeOptions);');
+  });
+});
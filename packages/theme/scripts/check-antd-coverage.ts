@@ -23,6 +23,7 @@ import { fileURLToPath } from 'node:url';
 type FinexUiResolved = {
   light: Record<string, string>;
   dark: Record<string, string>;
+  [mode: string]: Record<string, string>;
 };
 
 type StringMap = Record<string, string>;
@@ -47,11 +48,6 @@ const expectedUnusedFinexKeys: Record<string, string> = {
   // 设计侧目前 Light/Dark 同值（#f9f9f9），注入到 antd 容易把 dark surface 拉亮；更适合作为业务侧的“浅灰提示底色”
   'Tips-Grey': 'Light/Dark 同值，暂不注入 antd（避免影响暗色表面）。',
 
-  // antd 没有内置 “Warning Button” 这一标准语义（只有 primary/default/danger 等）
-  'Button-Color-Warning-button-normal': '业务按钮状态色（antd 无对应语义）。',
-  'Button-Color-Warning-button-Press': '业务按钮状态色（antd 无对应语义）。',
-  'Button-Color-Warning-button-Disable': '业务按钮状态色（antd 无对应语义）。',
-
   // 与 normal 同值，但设计侧保留了 disable 这一槽位；如后续分离出独立色值再映射
   'Button-Color-Secondary-White-button-Disable': '与 normal 同值，暂不单独映射。'
 };
@@ -94,14 +90,16 @@ async function main() {
   const antdComponentsMap = JSON.parse(antdComponentsMapRaw) as ComponentsMap;
 
   const finexLightKeys = Object.keys(finexUi.light ?? {});
-  const finexDarkKeys = Object.keys(finexUi.dark ?? {});
-  const darkSet = new Set(finexDarkKeys);
-  const missingInDark = finexLightKeys.filter((key) => !darkSet.has(key));
-  if (missingInDark.length > 0) {
-    const preview = missingInDark.slice(0, 10).join(', ');
-    throw new Error(
-      `[theme] finex-ui.json: Light/Dark key 不一致（dark 缺少：${preview}${missingInDark.length > 10 ? ' ...' : ''}）`
-    );
+  for (const [mode, modeTokens] of Object.entries(finexUi)) {
+    if (mode === 'light') continue;
+    const modeSet = new Set(Object.keys(modeTokens ?? {}));
+    const missingInMode = finexLightKeys.filter((key) => !modeSet.has(key));
+    if (missingInMode.length > 0) {
+      const preview = missingInMode.slice(0, 10).join(', ');
+      throw new Error(
+        `[theme] finex-ui.json: light/${mode} key 不一致（${mode} 缺少：${preview}${missingInMode.length > 10 ? ' ...' : ''}）`
+      );
+    }
   }
 
   const allFinexKeys = finexLightKeys.sort();
@@ -0,0 +1,103 @@
+/**
+ * 检查主题里「文字 token + 背景 token」组合的 WCAG 对比度。
+ *
+ * 背景：
+ * - 覆盖率检查只保证 finex key 都被 antd 消费到，不保证颜色搭配可读
+ * - 这里按 `contrastPairs`（src/contrast.ts）逐个模式计算对比度，半透明颜色按叠加后的实际颜色计算
+ *
+ * 用法：
+ * - `pnpm --filter @farm-design-system/theme check:contrast`
+ * - 严格模式（用于 CI）：`pnpm --filter @farm-design-system/theme check:contrast -- --strict`
+ * - 审计项目覆写：`... check:contrast -- --options ./theme-options.json`（`CreateThemeOptions` JSON，例如 ThemeEditor 导出的 JSON）
+ * - 按 AAA 判定：`... check:contrast -- --level AAA`
+ *
+ * 读懂输出：
+ * - 默认按 AA 判定（正文 4.5:1，大号文字 3:1）
+ * - 已知未达标的组合记录在 `expectedContrastFailures`（写清原因）；严格模式只对新增的失败报错
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { auditContrast, type ContrastLevel, type ContrastResult } from '../src/contrast';
+import { createTheme, type CreateThemeOptions } from '../src/tokens';
+
+/**
+ * 允许“暂未达标”的组合：key 为 `模式:前景/背景`。
+ *
+ * 说明：
+ * - 只影响严格模式的判定，不影响主题产物本身
+ * - 设计侧调整色值后记得把对应条目删掉
+ */
+const expectedContrastFailures: Record<string, string> = {
+  // 状态色浅底（Tag/Alert）：设计稿的状态文字色直接复用了实底色，浅底上偏亮
+  'light:colorSuccessText/colorSuccessBg': '状态文字色复用实底色，待设计侧出独立文字色。',
+  'light:colorWarningText/colorWarningBg': '状态文字色复用实底色，待设计侧出独立文字色。',
+  'light:colorErrorText/colorErrorBg': '状态文字色复用实底色，待设计侧出独立文字色。',
+  'dark:colorSuccessText/colorSuccessBg': '状态文字色复用实底色，待设计侧出独立文字色。',
+  'dark:colorWarningText/colorWarningBg': '暗色沿用亮色的警告色，待设计侧出暗色值。',
+  'dark:colorErrorText/colorErrorBg': '状态文字色复用实底色，待设计侧出独立文字色。',
+  'dark:colorPrimaryText/colorPrimaryBg': '暗色主色浅底与主色过于接近，待设计侧调整。',
+
+  // 暗色主色 #6a66f6：作为文字（链接/选中标签）与作为白字底色都略低于 4.5:1
+  'dark:colorLink/colorBgContainer': '暗色主色偏暗，待设计侧调整。',
+  'dark:Tabs.itemSelectedColor/colorBgContainer': '同 colorLink（暗色主色）。',
+  'dark:colorTextLightSolid/colorPrimary': '暗色主色偏亮，白字略低于 4.5:1，待设计侧调整。',
+  'dark:Button.primaryColor/Button.colorPrimary': '同 colorTextLightSolid / colorPrimary。'
+};
+
+function isStrictMode(argv: string[]): boolean {
+  return argv.includes('--strict');
+}
+
+function readArg(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+function resultKey(result: ContrastResult): string {
+  return `${result.mode}:${result.pair.foreground}/${result.pair.background}`;
+}
+
+function formatResult(result: ContrastResult): string {
+  const { pair } = result;
+  const colors =
+    result.foregroundValue === result.foregroundColor && result.backgroundValue === result.backgroundColor
+      ? `${result.foregroundValue} on ${result.backgroundValue}`
+      : `${result.foregroundValue} on ${result.backgroundValue} -> ${result.foregroundColor} on ${result.backgroundColor}`;
+  return `${pair.foreground} / ${pair.background}：${result.ratio}:1（${colors}${pair.description ? `，${pair.description}` : ''}）`;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const level = (readArg(argv, '--level') ?? 'AA').toUpperCase() as ContrastLevel;
+  if (level !== 'AA' && level !== 'AAA') {
+    throw new Error(`[theme] --level 只支持 AA / AAA（收到：${level}）`);
+  }
+
+  const optionsPath = readArg(argv, '--options');
+  const options = optionsPath
+    ? (JSON.parse(await fs.readFile(path.resolve(process.cwd(), optionsPath), 'utf8')) as CreateThemeOptions)
+    : {};
+
+  const report = auditContrast(createTheme(options), { level });
+
+  console.log(`[theme] 对比度检查（${level}）：${report.results.length} 组，未达标 ${report.failures.length} 组`);
+  if (report.failures.length === 0) return;
+
+  const modes = [...new Set(report.failures.map((result: ContrastResult) => result.mode))];
+  for (const mode of modes) {
+    console.log(`[theme] ${mode}：`);
+    for (const result of report.failures.filter((item: ContrastResult) => item.mode === mode)) {
+      const reason = expectedContrastFailures[resultKey(result)];
+      console.log(reason ? `- ${formatResult(result)}（${reason}）` : `- ${formatResult(result)}`);
+    }
+  }
+
+  if (isStrictMode(argv)) {
+    const unexpected = report.failures.filter((result: ContrastResult) => !(resultKey(result) in expectedContrastFailures));
+    if (unexpected.length > 0) process.exitCode = 1;
+  }
+}
+
+await main();
@@ -0,0 +1,73 @@
+/**
+ * 对比两份 Token Studio 导出，输出 token 变更报告（贴到 release notes / PR 描述）。
+ *
+ * 背景：
+ * - 设计侧更新 `scripts/finex-ui.json` 后，`sync:assets` 会直接重写 `src/finex-ui.json` 与 adapters，看不出改了什么
+ * - 这里把两份导出都解析成 `{ light, dark, ... }`，再按 `src/token-diff.ts` 的规则对比
+ *
+ * 用法：
+ * - 对比 git HEAD 与工作区：`pnpm --filter @farm-design-system/theme diff:tokens`
+ * - 指定 git ref：`... diff:tokens -- --base origin/main`
+ * - 对比两个文件：`... diff:tokens -- --before ./old.json --after ./new.json`（原始导出或已解析的 finex-ui.json 均可）
+ * - 输出 JSON / 写入文件：`... diff:tokens -- --format json --out token-diff.json`
+ *
+ * 读懂输出：
+ * - “影响”一列按当前的 `src/adapters/*.json` 反查；被删除/重命名的 key 如果仍被映射引用，`sync:assets` 会报错，需要同步改 `finex-to-antd-map.ts`
+ */
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { diffFinexUi, formatFinexUiDiff } from '../src/token-diff';
+import { resolveFinexUi } from '../src/tokens';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const packageRoot = path.resolve(__dirname, '..');
+const tokenStudioExportPath = path.join(packageRoot, 'scripts', 'finex-ui.json');
+
+function readArg(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+async function readJsonFile(file: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(path.resolve(process.cwd(), file), 'utf8')) as unknown;
+}
+
+function readJsonAtRef(ref: string): unknown {
+  // `<ref>:./path` 按 cwd 解析路径，不依赖包在仓库里的位置
+  const raw = execFileSync('git', ['show', `${ref}:./scripts/finex-ui.json`], {
+    cwd: packageRoot,
+    encoding: 'utf8',
+    maxBuffer: 64 * 1024 * 1024
+  });
+  return JSON.parse(raw) as unknown;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const format = readArg(argv, '--format') ?? 'markdown';
+  if (format !== 'markdown' && format !== 'json') {
+    throw new Error(`[theme] --format 只支持 markdown / json（收到：${format}）`);
+  }
+
+  const beforePath = readArg(argv, '--before');
+  const afterPath = readArg(argv, '--after');
+  const beforeRaw = beforePath ? await readJsonFile(beforePath) : readJsonAtRef(readArg(argv, '--base') ?? 'HEAD');
+  const afterRaw = await readJsonFile(afterPath ?? tokenStudioExportPath);
+
+  const diff = diffFinexUi(resolveFinexUi(beforeRaw), resolveFinexUi(afterRaw));
+  const output = formatFinexUiDiff(diff, format);
+
+  const outPath = readArg(argv, '--out');
+  if (outPath) {
+    await fs.writeFile(path.resolve(process.cwd(), outPath), output, 'utf8');
+    console.log(`[theme] token 变更报告已写入：${outPath}`);
+    return;
+  }
+  process.stdout.write(output);
+}
+
+await main();
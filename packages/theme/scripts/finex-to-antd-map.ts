@@ -146,7 +146,12 @@ export const antdComponentTokenFinexMap: Record<string, Record<string, FinexKeyC
     defaultColor: 'Text-Color-Text-1',
     defaultHoverColor: 'Brand-Color-Brand-2',
     defaultActiveColor: 'Button-Color-Main-button-Press',
-    textHoverBg: 'Divider-Color-Divider-4'
+    textHoverBg: 'Divider-Color-Divider-4',
+    // antd 没有 warning 按钮语义：以下为 Farm 自定义的组件 token（antd 忽略），由 `@farm-design-system/ui` 的 WarningButton 读取
+    warningBg: 'Button-Color-Warning-button-normal',
+    warningHoverBg: 'Button-Color-Warning-button-Press',
+    warningActiveBg: 'Button-Color-Warning-button-Press',
+    warningBgDisabled: 'Button-Color-Warning-button-Disable'
   },
   Input: {
     addonBg: 'Bg-Color-Bg-2',
@@ -0,0 +1,342 @@
+/* Auto-generated by scripts/sync-src-assets.ts. Do not edit. */
+
+/** finex key（finex-ui.json 各模式共享的 key） */
+export type FinexKey =
+  | 'Brand-Color-Brand-2'
+  | 'Brand-Color-Brand-3'
+  | 'Brand-Color-Brand-1'
+  | 'Bg-Color-Bg-1'
+  | 'Bg-Color-Bg-2'
+  | 'Bg-Color-Bg-3'
+  | 'Text-Color-Text-1'
+  | 'Text-Color-Text-2'
+  | 'Text-Color-Text-3'
+  | 'Text-Color-Text-4'
+  | 'Text-Color-Text-5'
+  | 'Text-Color-Text-6'
+  | 'Text-Color-Text-7'
+  | 'Text-Color-Text-11'
+  | 'Text-Color-Text-8'
+  | 'Text-Color-Text-10'
+  | 'Text-Color-Text-12'
+  | 'Text-Color-Text-13'
+  | 'Text-Color-Text-14'
+  | 'Text-Color-Text-9'
+  | 'Divider-Color-Divider-1'
+  | 'Divider-Color-Divider-2'
+  | 'Divider-Color-Divider-3'
+  | 'Divider-Color-Divider-4'
+  | 'Pump_Dump-Color-PD-1'
+  | 'Pump_Dump-Color-PD-3'
+  | 'Pump_Dump-Color-PD-4'
+  | 'Pump_Dump-Color-PD-2'
+  | 'Neutral-Color-Neutral-1'
+  | 'Neutral-Color-Neutral-2'
+  | 'Neutral-Color-Neutral-3'
+  | 'Neutral-Color-Neutral-4'
+  | 'Neutral-Color-Neutral-5'
+  | 'Neutral-Color-Neutral-6'
+  | 'Ohter-Color-Other-1'
+  | 'Ohter-Color-Ohter-2'
+  | 'Ohter-Color-Ohter-4'
+  | 'Ohter-Color-Other-5'
+  | 'Tips-Red'
+  | 'Tips-Orange'
+  | 'Tips-Yellow'
+  | 'Tips-Green'
+  | 'Tips-Cyan'
+  | 'Tips-Blue'
+  | 'Tips-Dark purple'
+  | 'Tips-Purple Red'
+  | 'Tips-Bright Red'
+  | 'Tips-Grey'
+  | 'Bg-group-Color-1'
+  | 'Bg-group-Color-2'
+  | 'Bg-group-Color-3'
+  | 'Button-Color-Main-button-normal'
+  | 'Button-Color-Main-button-Press'
+  | 'Button-Color-Main-button-Disable'
+  | 'Button-Color-Secondary-White-button-normal'
+  | 'Button-Color-Secondary-White-button-Press'
+  | 'Button-Color-Secondary-White-button-Disable'
+  | 'Button-Color-Secondary-Grey-button-normal'
+  | 'Button-Color-Secondary-Grey-button-Press'
+  | 'Button-Color-Secondary-Grey-button-Disable'
+  | 'Button-Color-Warning-button-normal'
+  | 'Button-Color-Warning-button-Press'
+  | 'Button-Color-Warning-button-Disable'
+  | 'Button-Color-gray-button-normal'
+  | 'Button-Color-gray-button-Press'
+  | 'Button-Color-gray-button-Disable'
+  | 'Mask-Color-Mask';
+
+/** antdTokenMap 里声明过的 antd 全局 token */
+export type AntdTokenName =
+  | 'colorPrimary'
+  | 'colorPrimaryHover'
+  | 'colorPrimaryActive'
+  | 'colorPrimaryBg'
+  | 'colorPrimaryBgHover'
+  | 'colorPrimaryBorder'
+  | 'colorPrimaryBorderHover'
+  | 'colorPrimaryText'
+  | 'colorPrimaryTextHover'
+  | 'colorPrimaryTextActive'
+  | 'colorLink'
+  | 'colorLinkHover'
+  | 'colorLinkActive'
+  | 'colorInfo'
+  | 'colorInfoText'
+  | 'colorInfoTextHover'
+  | 'colorInfoTextActive'
+  | 'colorSuccess'
+  | 'colorSuccessBg'
+  | 'colorSuccessText'
+  | 'colorSuccessBorder'
+  | 'colorSuccessHover'
+  | 'colorSuccessActive'
+  | 'colorSuccessTextHover'
+  | 'colorSuccessTextActive'
+  | 'colorWarning'
+  | 'colorWarningBg'
+  | 'colorWarningBgHover'
+  | 'colorWarningBorder'
+  | 'colorWarningBorderHover'
+  | 'colorWarningHover'
+  | 'colorWarningActive'
+  | 'colorWarningText'
+  | 'colorWarningTextHover'
+  | 'colorWarningTextActive'
+  | 'colorError'
+  | 'colorErrorBg'
+  | 'colorErrorBgHover'
+  | 'colorErrorBorder'
+  | 'colorErrorBorderHover'
+  | 'colorErrorHover'
+  | 'colorErrorActive'
+  | 'colorErrorText'
+  | 'colorErrorTextHover'
+  | 'colorErrorTextActive'
+  | 'colorBgBase'
+  | 'colorBgLayout'
+  | 'colorBgContainer'
+  | 'colorBgElevated'
+  | 'colorBgMask'
+  | 'colorBgContainerDisabled'
+  | 'colorBgSpotlight'
+  | 'colorBgBlur'
+  | 'colorBgSolid'
+  | 'colorBgSolidHover'
+  | 'colorBgSolidActive'
+  | 'colorFill'
+  | 'colorFillSecondary'
+  | 'colorFillTertiary'
+  | 'colorFillQuaternary'
+  | 'colorFillContent'
+  | 'colorFillContentHover'
+  | 'colorFillAlter'
+  | 'colorBgTextHover'
+  | 'colorBgTextActive'
+  | 'colorBorderBg'
+  | 'controlItemBgHover'
+  | 'controlItemBgActive'
+  | 'controlItemBgActiveHover'
+  | 'controlItemBgActiveDisabled'
+  | 'controlOutline'
+  | 'colorWarningOutline'
+  | 'colorErrorOutline'
+  | 'controlTmpOutline'
+  | 'blue6'
+  | 'cyan6'
+  | 'green6'
+  | 'red6'
+  | 'yellow6'
+  | 'magenta6'
+  | 'pink6'
+  | 'purple6'
+  | 'red1'
+  | 'red3'
+  | 'orange6'
+  | 'orange1'
+  | 'purple1'
+  | 'colorTextBase'
+  | 'colorText'
+  | 'colorTextSecondary'
+  | 'colorTextTertiary'
+  | 'colorTextQuaternary'
+  | 'colorTextLightSolid'
+  | 'colorTextHeading'
+  | 'colorTextLabel'
+  | 'colorTextDescription'
+  | 'colorTextPlaceholder'
+  | 'colorTextDisabled'
+  | 'colorIcon'
+  | 'colorIconHover'
+  | 'colorBorder'
+  | 'colorBorderSecondary'
+  | 'colorBorderDisabled'
+  | 'colorSplit';
+
+/** antd 全局 token -> CSS 变量名 */
+export type AntdTokenCssVars = {
+  colorPrimary: '--farm-color-primary';
+  colorPrimaryHover: '--farm-color-primary-hover';
+  colorPrimaryActive: '--farm-color-primary-active';
+  colorPrimaryBg: '--farm-color-primary-bg';
+  colorPrimaryBgHover: '--farm-color-primary-bg-hover';
+  colorPrimaryBorder: '--farm-color-primary-border';
+  colorPrimaryBorderHover: '--farm-color-primary-border-hover';
+  colorPrimaryText: '--farm-color-primary-text';
+  colorPrimaryTextHover: '--farm-color-primary-text-hover';
+  colorPrimaryTextActive: '--farm-color-primary-text-active';
+  colorLink: '--farm-color-link';
+  colorLinkHover: '--farm-color-link-hover';
+  colorLinkActive: '--farm-color-link-active';
+  colorInfo: '--farm-color-info';
+  colorInfoText: '--farm-color-info-text';
+  colorInfoTextHover: '--farm-color-info-text-hover';
+  colorInfoTextActive: '--farm-color-info-text-active';
+  colorSuccess: '--farm-color-success';
+  colorSuccessBg: '--farm-color-success-bg';
+  colorSuccessText: '--farm-color-success-text';
+  colorSuccessBorder: '--farm-color-success-border';
+  colorSuccessHover: '--farm-color-success-hover';
+  colorSuccessActive: '--farm-color-success-active';
+  colorSuccessTextHover: '--farm-color-success-text-hover';
+  colorSuccessTextActive: '--farm-color-success-text-active';
+  colorWarning: '--farm-color-warning';
+  colorWarningBg: '--farm-color-warning-bg';
+  colorWarningBgHover: '--farm-color-warning-bg-hover';
+  colorWarningBorder: '--farm-color-warning-border';
+  colorWarningBorderHover: '--farm-color-warning-border-hover';
+  colorWarningHover: '--farm-color-warning-hover';
+  colorWarningActive: '--farm-color-warning-active';
+  colorWarningText: '--farm-color-warning-text';
+  colorWarningTextHover: '--farm-color-warning-text-hover';
+  colorWarningTextActive: '--farm-color-warning-text-active';
+  colorError: '--farm-color-error';
+  colorErrorBg: '--farm-color-error-bg';
+  colorErrorBgHover: '--farm-color-error-bg-hover';
+  colorErrorBorder: '--farm-color-error-border';
+  colorErrorBorderHover: '--farm-color-error-border-hover';
+  colorErrorHover: '--farm-color-error-hover';
+  colorErrorActive: '--farm-color-error-active';
+  colorErrorText: '--farm-color-error-text';
+  colorErrorTextHover: '--farm-color-error-text-hover';
+  colorErrorTextActive: '--farm-color-error-text-active';
+  colorBgBase: '--farm-color-bg-base';
+  colorBgLayout: '--farm-color-bg-layout';
+  colorBgContainer: '--farm-color-bg-container';
+  colorBgElevated: '--farm-color-bg-elevated';
+  colorBgMask: '--farm-color-bg-mask';
+  colorBgContainerDisabled: '--farm-color-bg-container-disabled';
+  colorBgSpotlight: '--farm-color-bg-spotlight';
+  colorBgBlur: '--farm-color-bg-blur';
+  colorBgSolid: '--farm-color-bg-solid';
+  colorBgSolidHover: '--farm-color-bg-solid-hover';
+  colorBgSolidActive: '--farm-color-bg-solid-active';
+  colorFill: '--farm-color-fill';
+  colorFillSecondary: '--farm-color-fill-secondary';
+  colorFillTertiary: '--farm-color-fill-tertiary';
+  colorFillQuaternary: '--farm-color-fill-quaternary';
+  colorFillContent: '--farm-color-fill-content';
+  colorFillContentHover: '--farm-color-fill-content-hover';
+  colorFillAlter: '--farm-color-fill-alter';
+  colorBgTextHover: '--farm-color-bg-text-hover';
+  colorBgTextActive: '--farm-color-bg-text-active';
+  colorBorderBg: '--farm-color-border-bg';
+  controlItemBgHover: '--farm-control-item-bg-hover';
+  controlItemBgActive: '--farm-control-item-bg-active';
+  controlItemBgActiveHover: '--farm-control-item-bg-active-hover';
+  controlItemBgActiveDisabled: '--farm-control-item-bg-active-disabled';
+  controlOutline: '--farm-control-outline';
+  colorWarningOutline: '--farm-color-warning-outline';
+  colorErrorOutline: '--farm-color-error-outline';
+  controlTmpOutline: '--farm-control-tmp-outline';
+  blue6: '--farm-blue-6';
+  cyan6: '--farm-cyan-6';
+  green6: '--farm-green-6';
+  red6: '--farm-red-6';
+  yellow6: '--farm-yellow-6';
+  magenta6: '--farm-magenta-6';
+  pink6: '--farm-pink-6';
+  purple6: '--farm-purple-6';
+  red1: '--farm-red-1';
+  red3: '--farm-red-3';
+  orange6: '--farm-orange-6';
+  orange1: '--farm-orange-1';
+  purple1: '--farm-purple-1';
+  colorTextBase: '--farm-color-text-base';
+  colorText: '--farm-color-text';
+  colorTextSecondary: '--farm-color-text-secondary';
+  colorTextTertiary: '--farm-color-text-tertiary';
+  colorTextQuaternary: '--farm-color-text-quaternary';
+  colorTextLightSolid: '--farm-color-text-light-solid';
+  colorTextHeading: '--farm-color-text-heading';
+  colorTextLabel: '--farm-color-text-label';
+  colorTextDescription: '--farm-color-text-description';
+  colorTextPlaceholder: '--farm-color-text-placeholder';
+  colorTextDisabled: '--farm-color-text-disabled';
+  colorIcon: '--farm-color-icon';
+  colorIconHover: '--farm-color-icon-hover';
+  colorBorder: '--farm-color-border';
+  colorBorderSecondary: '--farm-color-border-secondary';
+  colorBorderDisabled: '--farm-color-border-disabled';
+  colorSplit: '--farm-color-split';
+};
+
+/** antdComponentsMap 里声明过的组件 -> 组件级 token */
+export type AntdComponentTokenNames = {
+  Button:
+    | 'colorPrimary'
+    | 'colorPrimaryHover'
+    | 'colorPrimaryActive'
+    | 'colorBgContainer'
+    | 'colorBgContainerDisabled'
+    | 'primaryColor'
+    | 'defaultHoverBg'
+    | 'defaultActiveBg'
+    | 'defaultBorderColor'
+    | 'defaultHoverBorderColor'
+    | 'defaultActiveBorderColor'
+    | 'defaultColor'
+    | 'defaultHoverColor'
+    | 'defaultActiveColor'
+    | 'textHoverBg'
+    | 'warningBg'
+    | 'warningHoverBg'
+    | 'warningActiveBg'
+    | 'warningBgDisabled';
+  Input:
+    | 'addonBg'
+    | 'hoverBorderColor'
+    | 'activeBorderColor'
+    | 'hoverBg'
+    | 'activeBg';
+  Select:
+    | 'selectorBg'
+    | 'clearBg'
+    | 'hoverBorderColor'
+    | 'activeBorderColor'
+    | 'activeOutlineColor'
+    | 'optionSelectedColor'
+    | 'optionSelectedBg'
+    | 'optionActiveBg'
+    | 'multipleItemBg'
+    | 'multipleItemBorderColor'
+    | 'multipleSelectorBgDisabled'
+    | 'multipleItemColorDisabled'
+    | 'multipleItemBorderColorDisabled';
+  Tabs:
+    | 'cardBg'
+    | 'inkBarColor'
+    | 'itemColor'
+    | 'itemHoverColor'
+    | 'itemActiveColor'
+    | 'itemSelectedColor';
+  Modal:
+    | 'headerBg'
+    | 'contentBg'
+    | 'footerBg'
+    | 'titleColor';
+};
@@ -0,0 +1,66 @@
+/**
+ * `FarmProvider` 向子树提供的上下文（供 `react.tsx` 与 `ThemeEditor` 等共享，不单独作为公共入口）。
+ */
+import React from 'react';
+
+import type { FarmSlotStyle, Theme } from './react';
+import type { ThemeRegistry } from './registry';
+import type { ThemeBundle, ThemeMode, ThemeOverrides } from './tokens';
+
+export type FarmThemeMode = ThemeMode;
+/** 用户可选择的模式：具体模式，或 `system`（跟随系统 `prefers-color-scheme`，解析为 light/dark） */
+export type FarmThemeModeSetting = FarmThemeMode | 'system';
+
+export type FarmThemeModeContextValue = {
+  /** 用户选择的模式（可能是 `system`） */
+  mode: FarmThemeModeSetting;
+  /** 实际生效的模式（`system` 已解析为 light/dark） */
+  resolvedMode: FarmThemeMode;
+  /** 当前主题包含的模式（可用于渲染切换器） */
+  modes: FarmThemeMode[];
+  setMode: (mode: FarmThemeModeSetting) => void;
+};
+
+export const FarmThemeModeContext = React.createContext<FarmThemeModeContextValue | null>(null);
+
+/**
+ * 读取/切换最近的 `FarmProvider` 的主题模式：
+ *
+ * ```tsx
+ * const { mode, resolvedMode, setMode } = useFarmThemeMode();
+ * <button onClick={() => setMode(resolvedMode === 'dark' ? 'light' : 'dark')}>切换</button>
+ * ```
+ */
+export function useFarmThemeMode(): FarmThemeModeContextValue {
+  const value = React.useContext(FarmThemeModeContext);
+  if (!value) {
+    throw new Error('@farm-design-system/theme: useFarmThemeMode 必须在 FarmProvider 内使用。');
+  }
+  return value;
+}
+
+export type FarmScopeContextValue = {
+  registry: ThemeRegistry;
+  /** 注册表里的品牌名（undefined 表示内置品牌） */
+  brand: string | undefined;
+  /** 当前生效的主题（已叠加 overrides） */
+  bundle: ThemeBundle;
+  mode: FarmThemeMode;
+  /** 最外层以全局选择器注入的 CSS 变量对应的主题（未注入时为 null） */
+  global: { registry: ThemeRegistry; brand: string | undefined; bundle: ThemeBundle } | null;
+  /** 是否开启 antd CSS 变量模式（`FarmProvider cssVar`，嵌套时继承） */
+  cssVar: boolean;
+  /** `createGlobalStyle` 的收窄选择器：`scope="wrap"` 时为 `[data-farm-scope="…"]`，`document` 时为 null（全局） */
+  styleScope: string | null;
+  /** `FarmProvider components` 按嵌套顺序排列（外层在前），由 `createStyles({ name })` 依次叠加 */
+  componentStyles: Array<Record<string, Record<string, FarmSlotStyle | undefined> | undefined>>;
+  /** 当前生效的 antd 组件 token（`theme.components`，已合并外层），供 `createStyles({ name })` 的 `componentToken` 使用 */
+  antdComponents: Record<string, Record<string, string | number | undefined> | undefined>;
+  /** cssVar 模式下当前模式的 antd token（此时 antd `useToken()` 拿到的是第一个模式的值）；非 cssVar 时为 null */
+  modeToken: Theme | null;
+  /** 运行时覆写（`ThemeEditor` 写入），叠加在 `FarmProvider overrides` 之上 */
+  runtimeOverrides: ThemeOverrides | undefined;
+  setRuntimeOverrides: (overrides: ThemeOverrides | undefined) => void;
+};
+
+export const FarmScopeContext = React.createContext<FarmScopeContextValue | null>(null);
@@ -0,0 +1,222 @@
+import { createTheme, type ThemeBundle, type ThemeMode } from './tokens';
+
+/**
+ * WCAG 2.x 对比度审计：检查“文字 token 放在它搭配的背景 token 上”是否可读。
+ *
+ * 约定：
+ * - token 引用写法：全局 token 直接写名字（`colorText`），组件 token 写 `组件.token`（`Button.primaryColor`）
+ * - 组件 token 缺省时按 antd 的规则回退到同名全局 token
+ * - 半透明颜色会先叠到背景上再计算（前景叠背景，背景叠 `backdrop`）
+ */
+
+export type ContrastLevel = 'AA' | 'AAA';
+
+export type ContrastPair = {
+  /** 前景（文字/图标）token */
+  foreground: string;
+  /** 前景所在的背景 token */
+  background: string;
+  /** 背景半透明时垫在下面的 token（默认：colorBgContainer） */
+  backdrop?: string;
+  /** 大号文字（≥18px 或 ≥14px 加粗）：AA 要求 3:1，AAA 要求 4.5:1 */
+  large?: boolean;
+  /** 使用场景说明（出现在报告里） */
+  description?: string;
+};
+
+/**
+ * 默认审计的前景/背景组合（与 antd 组件里的实际搭配一致）。
+ * 项目新增搭配时可以 `[...contrastPairs, { ... }]` 后传给 `auditContrast`。
+ */
+export const contrastPairs: ContrastPair[] = [
+  { foreground: 'colorText', background: 'colorBgContainer', description: '正文' },
+  { foreground: 'colorText', background: 'colorBgLayout', description: '布局背景上的正文' },
+  { foreground: 'colorText', background: 'colorBgElevated', description: '浮层正文' },
+  { foreground: 'colorTextHeading', background: 'colorBgContainer', description: '标题' },
+  { foreground: 'colorTextSecondary', background: 'colorBgContainer', description: '次要文字' },
+  { foreground: 'colorLink', background: 'colorBgContainer', description: '链接' },
+  { foreground: 'colorPrimaryText', background: 'colorPrimaryBg', description: '主色浅底文字（Tag/Alert）' },
+  { foreground: 'colorSuccessText', background: 'colorSuccessBg', description: '成功浅底文字' },
+  { foreground: 'colorWarningText', background: 'colorWarningBg', description: '警告浅底文字' },
+  { foreground: 'colorErrorText', background: 'colorErrorBg', description: '错误浅底文字' },
+  { foreground: 'colorTextLightSolid', background: 'colorPrimary', description: '主色实底文字' },
+  { foreground: 'Button.primaryColor', background: 'Button.colorPrimary', description: '主按钮' },
+  { foreground: 'Button.defaultColor', background: 'Button.colorBgContainer', description: '默认按钮' },
+  { foreground: 'Tabs.itemColor', background: 'colorBgContainer', description: '标签页' },
+  { foreground: 'Tabs.itemSelectedColor', background: 'colorBgContainer', description: '选中标签页' },
+  { foreground: 'Select.optionSelectedColor', background: 'Select.optionSelectedBg', description: '下拉选中项' },
+  { foreground: 'Modal.titleColor', background: 'Modal.contentBg', large: true, description: '弹窗标题' }
+];
+
+export type ContrastAuditOptions = {
+  /** 需要审计的组合（默认：`contrastPairs`） */
+  pairs?: ContrastPair[];
+  /** 判定失败的等级（默认：AA） */
+  level?: ContrastLevel;
+  /** 只审计部分模式（默认：主题的所有模式） */
+  modes?: ThemeMode[];
+};
+
+export type ContrastResult = {
+  mode: ThemeMode;
+  pair: ContrastPair;
+  /** token 的原始值 */
+  foregroundValue: string;
+  backgroundValue: string;
+  /** 叠加透明度后的实际颜色（`#rrggbb`） */
+  foregroundColor: string;
+  backgroundColor: string;
+  /** 对比度（保留两位小数），例如 4.56 */
+  ratio: number;
+  aa: boolean;
+  aaa: boolean;
+};
+
+export type ContrastAuditReport = {
+  level: ContrastLevel;
+  results: ContrastResult[];
+  /** 未达到 `level` 的组合 */
+  failures: ContrastResult[];
+};
+
+type Rgba = { r: number; g: number; b: number; a: number };
+
+const WHITE: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+
+/**
+ * 解析颜色值：支持 `#rgb/#rgba/#rrggbb/#rrggbbaa`、`rgb()/rgba()`（逗号或空格分隔）与 `transparent`。
+ * 无法识别时返回 null。
+ */
+export function parseColor(value: string): Rgba | null {
+  const input = value.trim().toLowerCase();
+  if (input === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(input)?.[1];
+  if (hex) {
+    const full = hex.length <= 4 ? [...hex].map((char) => char + char).join('') : hex;
+    const channel = (index: number) => parseInt(full.slice(index * 2, index * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), a: full.length === 8 ? channel(3) / 255 : 1 };
+  }
+
+  const fn = /^rgba?\(([^)]*)\)$/.exec(input)?.[1];
+  if (fn) {
+    const parts = fn.split(/[\s,/]+/).filter(Boolean);
+    if (parts.length !== 3 && parts.length !== 4) return null;
+    const [r, g, b] = parts.slice(0, 3).map((part) => (part.endsWith('%') ? (parseFloat(part) / 100) * 255 : parseFloat(part)));
+    const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+    if ([r, g, b, alpha].some((n) => Number.isNaN(n))) return null;
+    return { r: r!, g: g!, b: b!, a: Math.min(1, Math.max(0, alpha)) };
+  }
+
+  return null;
+}
+
+/** 把半透明颜色叠到（不透明的）背景上 */
+function composite(color: Rgba, background: Rgba): Rgba {
+  const mix = (fg: number, bg: number) => fg * color.a + bg * (1 - color.a);
+  return { r: mix(color.r, background.r), g: mix(color.g, background.g), b: mix(color.b, background.b), a: 1 };
+}
+
+function toHex(color: Rgba): string {
+  return `#${[color.r, color.g, color.b].map((n) => Math.round(n).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function relativeLuminance(color: Rgba): number {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+}
+
+/**
+ * 计算两种颜色的 WCAG 对比度（1 ~ 21）。
+ * - 背景半透明时先叠到 `backdrop`（默认白色）上，前景半透明时再叠到背景上
+ */
+export function getContrastRatio(foreground: string, background: string, backdrop = '#ffffff'): number {
+  const base = parseRequiredColor(backdrop, 'backdrop');
+  const bg = composite(parseRequiredColor(background, 'background'), composite(base, WHITE));
+  const fg = composite(parseRequiredColor(foreground, 'foreground'), bg);
+  return ratioOf(fg, bg);
+}
+
+function ratioOf(foreground: Rgba, background: Rgba): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter! + 0.05) / (darker! + 0.05);
+}
+
+function parseRequiredColor(value: string, label: string): Rgba {
+  const color = parseColor(value);
+  if (!color) {
+    throw new Error(`@farm-design-system/theme: 无法解析 ${label} 颜色 "${value}"（支持 hex/rgb/rgba）。`);
+  }
+  return color;
+}
+
+function requiredRatio(level: ContrastLevel, large: boolean): number {
+  if (level === 'AAA') return large ? 4.5 : 7;
+  return large ? 3 : 4.5;
+}
+
+/**
+ * 读取某个模式下 token 的实际值：
+ * - 以注入 antd 的主题为准（包含 `overrides` 与 `antd.*.overrides/components`）
+ * - 组件 token 缺省时回退到同名全局 token
+ */
+function resolveTokenValue(bundle: ThemeBundle, mode: ThemeMode, ref: string): string {
+  const config = bundle.antdTheme[mode]!;
+  const [component, token] = ref.includes('.') ? ref.split('.', 2) : [undefined, ref];
+  const value = (component ? config.components?.[component]?.[token!] : undefined) ?? config.token[token!];
+  if (value === undefined) {
+    throw new Error(`@farm-design-system/theme: 对比度审计引用了不存在的 token "${ref}"（模式：${mode}）。`);
+  }
+  return String(value);
+}
+
+/**
+ * 审计主题里的前景/背景组合（默认审计 `createTheme()` 的产物；项目覆写后传入自己的 bundle）：
+ *
+ * ```ts
+ * const report = auditContrast(createTheme({ overrides }), { level: 'AA' });
+ * report.failures.forEach((r) => console.warn(r.mode, r.pair.foreground, r.ratio));
+ * ```
+ */
+export function auditContrast(bundle: ThemeBundle = createTheme(), options: ContrastAuditOptions = {}): ContrastAuditReport {
+  const { pairs = contrastPairs, level = 'AA', modes = bundle.modes } = options;
+  const results: ContrastResult[] = [];
+
+  for (const mode of modes) {
+    if (!bundle.antdTheme[mode]) {
+      throw new Error(`@farm-design-system/theme: 当前主题不包含模式 "${mode}"。`);
+    }
+
+    for (const pair of pairs) {
+      const foregroundValue = resolveTokenValue(bundle, mode, pair.foreground);
+      const backgroundValue = resolveTokenValue(bundle, mode, pair.background);
+      const backdropValue = resolveTokenValue(bundle, mode, pair.backdrop ?? 'colorBgContainer');
+
+      const backdrop = composite(parseRequiredColor(backdropValue, pair.backdrop ?? 'colorBgContainer'), WHITE);
+      const background = composite(parseRequiredColor(backgroundValue, pair.background), backdrop);
+      const foreground = composite(parseRequiredColor(foregroundValue, pair.foreground), background);
+      const ratio = ratioOf(foreground, background);
+
+      results.push({
+        mode,
+        pair,
+        foregroundValue,
+        backgroundValue,
+        foregroundColor: toHex(foreground),
+        backgroundColor: toHex(background),
+        ratio: Math.floor(ratio * 100) / 100,
+        aa: ratio >= requiredRatio('AA', !!pair.large),
+        aaa: ratio >= requiredRatio('AAA', !!pair.large)
+      });
+    }
+  }
+
+  return {
+    level,
+    results,
+    failures: results.filter((result) => (level === 'AAA' ? !result.aaa : !result.aa))
+  };
+}
@@ -0,0 +1,177 @@
+import { parseColor } from './contrast';
+import {
+  antdTokenMap,
+  createTheme,
+  cssVarName,
+  getTokenCategory,
+  type AntdTokenName,
+  type FinexUi,
+  type ThemeBundle,
+  type ThemeMode,
+  type TokenCategory
+} from './tokens';
+
+/**
+ * W3C Design Tokens（DTCG）导出：
+ * - 顶层按模式分组（`light/dark/...`），组内是 finex key（与 Token Studio 导出同一套命名）
+ * - 颜色 `#rrggbb(aa)`；尺寸用对象写法 `{ value: 8, unit: 'px' }`；阴影拆成 `shadow` 对象
+ * - `$extensions["farm-design-system"]` 记录映射到该 key 的 antd token 与 `--farm-*` 变量
+ *
+ * 导出的文档可以原样传回 `createTheme({ tokenStudio })`（DTCG 文档与 Token Studio 导出走同一个解析入口），
+ * 得到与导出时相同的主题。
+ */
+
+export type DtcgToken = {
+  $type: string;
+  $value: unknown;
+  $extensions?: Record<string, unknown>;
+};
+
+export type DtcgDocument = {
+  $description?: string;
+} & Record<ThemeMode, Record<string, DtcgToken> | string | undefined>;
+
+const EXTENSION_KEY = 'farm-design-system';
+
+function toHexColor(value: string): string {
+  const color = parseColor(value);
+  // 命名色/`var()` 等无法解析的值原样输出
+  if (!color) return value;
+  const channels = [color.r, color.g, color.b, ...(color.a < 1 ? [color.a * 255] : [])];
+  return `#${channels.map((n) => Math.round(n).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** 按顶层逗号/空白切分（忽略 `rgba(...)` 括号内的分隔符） */
+function splitTopLevel(value: string, separator: ',' | ' '): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth += 1;
+    if (char === ')') depth -= 1;
+    if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function toShadowValue(value: string): Record<string, unknown>[] | null {
+  const layers = splitTopLevel(value, ',').map((layer) => {
+    const parts = splitTopLevel(layer, ' ');
+    const inset = parts.includes('inset');
+    const lengths = parts.filter((part) => /^-?\d*\.?\d+([a-z%]+)?$/i.test(part));
+    const color = parts.find((part) => part !== 'inset' && !lengths.includes(part));
+    if (lengths.length < 2 || !color) return null;
+    const px = (index: number) => toDimensionValue(lengths[index] ?? '0') ?? lengths[index];
+    return {
+      color: toHexColor(color),
+      offsetX: px(0),
+      offsetY: px(1),
+      blur: px(2),
+      spread: px(3),
+      ...(inset ? { inset: true } : {})
+    };
+  });
+  return layers.every(Boolean) ? (layers as Record<string, unknown>[]) : null;
+}
+
+/** `8px` / `8` -> `{ value: 8, unit: 'px' }`；DTCG 只允许 px/rem，其它单位返回 null */
+function toDimensionValue(value: string): { value: number; unit: string } | null {
+  const match = /^(-?\d*\.?\d+)(px|rem)?$/.exec(value.trim());
+  return match ? { value: Number(match[1]), unit: match[2] ?? 'px' } : null;
+}
+
+/** finex key -> 映射到它的 antd 全局 token */
+function collectAntdTokens(): Map<string, AntdTokenName[]> {
+  const result = new Map<string, AntdTokenName[]>();
+  for (const [token, finexKey] of Object.entries(antdTokenMap) as Array<[AntdTokenName, string]>) {
+    result.set(finexKey, [...(result.get(finexKey) ?? []), token]);
+  }
+  return result;
+}
+
+/** 有 antd token 映射时按 token 分类；未映射的 key 按值推断 */
+function inferCategory(value: string, antdTokens: AntdTokenName[] | undefined): TokenCategory | 'number' | 'string' {
+  if (antdTokens?.length) return getTokenCategory(antdTokens[0]!);
+  if (parseColor(value)) return 'color';
+  if (/^-?\d*\.?\d+$/.test(value.trim())) return 'number';
+  if (toDimensionValue(value)) return 'spacing';
+  if (toShadowValue(value)) return 'boxShadow';
+  return 'string';
+}
+
+function toDtcgToken(value: string, antdTokens: AntdTokenName[] | undefined): DtcgToken {
+  const extensions = antdTokens?.length
+    ? { [EXTENSION_KEY]: { antdTokens, cssVars: antdTokens.map((token) => cssVarName(token)) } }
+    : undefined;
+  const token = (type: string, tokenValue: unknown): DtcgToken =>
+    extensions ? { $type: type, $value: tokenValue, $extensions: extensions } : { $type: type, $value: tokenValue };
+
+  switch (inferCategory(value, antdTokens)) {
+    case 'color':
+      return token('color', toHexColor(value));
+    case 'spacing':
+    case 'borderRadius':
+    case 'fontSize': {
+      const dimension = toDimensionValue(value);
+      return dimension ? token('dimension', dimension) : token('string', value);
+    }
+    case 'fontFamily':
+      return token('fontFamily', value);
+    case 'fontWeight':
+      return token('fontWeight', Number(value));
+    case 'lineHeight':
+    case 'number':
+      return token('number', Number(value));
+    case 'boxShadow': {
+      const shadow = toShadowValue(value);
+      return shadow ? token('shadow', shadow.length === 1 ? shadow[0] : shadow) : token('string', value);
+    }
+    default:
+      return token('string', value);
+  }
+}
+
+/**
+ * 导出用的 finex 值：`bundle.finexUi` 叠加 `overrides`（antd token 的覆写写回它映射的 finex key），
+ * 这样导出的文档传回 `createTheme({ tokenStudio })` 时不需要再带 overrides。
+ * - 多个 antd token 共用同一个 finex key 且覆写值不同时，以 antdTokenMap 里靠后的 token 为准
+ */
+function resolveExportFinexUi(bundle: ThemeBundle): FinexUi {
+  const result = {} as FinexUi;
+  for (const mode of bundle.modes) {
+    const modeFinex = { ...bundle.finexUi[mode] };
+    for (const [token, finexKey] of Object.entries(antdTokenMap) as Array<[AntdTokenName, string]>) {
+      const value = bundle.tokens[mode]?.[token];
+      if (value !== undefined && value !== bundle.finexUi[mode]?.[finexKey]) modeFinex[finexKey] = value;
+    }
+    result[mode] = modeFinex;
+  }
+  return result;
+}
+
+/**
+ * 把主题导出为 DTCG 文档（默认 `createTheme()`；项目/品牌主题传入自己的 bundle）。
+ * 构建时会写入 `dist/tokens.dtcg.json`。
+ */
+export function toDtcgTokens(bundle: ThemeBundle = createTheme()): DtcgDocument {
+  const document: DtcgDocument = {
+    $description: '@farm-design-system/theme：按模式分组的 finex token（可传回 createTheme({ tokenStudio })）'
+  } as DtcgDocument;
+
+  const antdTokensByKey = collectAntdTokens();
+  const finex = resolveExportFinexUi(bundle);
+  for (const mode of bundle.modes) {
+    const group: Record<string, DtcgToken> = {};
+    for (const [finexKey, value] of Object.entries(finex[mode] ?? {})) {
+      group[finexKey] = toDtcgToken(value, antdTokensByKey.get(finexKey));
+    }
+    document[mode] = group;
+  }
+  return document;
+}
@@ -12,6 +12,7 @@
  * 维护说明见：`packages/theme/MAINTENANCE.md`
  */
 export {
+  antdComponentSizes,
   antdComponentsMap,
   antdTheme,
   antdTokenMap,
@@ -20,19 +21,71 @@ export {
   cssVarName,
   cssVarNames,
   cssVars,
+  extendTheme,
   finexUi,
+  formatThemeOptions,
   getToken,
+  getTokenCategory,
+  inferModeAlgorithms,
+  isAntdTokenName,
+  modeAlgorithms,
+  resolveFinexUi,
   tailwindColors,
   tailwindPreset,
+  themeModes,
   tokens,
   type CreateAntdThemeOptions,
   type CreateThemeOptions,
+  type AntdComponentName,
+  type AntdComponentOverrides,
+  type AntdComponentTokenNames,
   type AntdThemeConfig,
+  type AntdTokenCssVars,
   type AntdTokenName,
+  type ColorTokenName,
   type CssVarsByMode,
+  type ExtendThemeOptions,
+  type FinexKey,
   type FinexUi,
   type MappedAntdTokensByMode,
+  type ThemeAlgorithm,
   type ThemeBundle,
   type ThemeMode,
+  type TailwindColorName,
+  type ThemeOverrides,
+  type TokenCategory,
   type TokensCssOptions
 } from './tokens';
+export {
+  auditContrast,
+  contrastPairs,
+  getContrastRatio,
+  parseColor,
+  type ContrastAuditOptions,
+  type ContrastAuditReport,
+  type ContrastLevel,
+  type ContrastPair,
+  type ContrastResult
+} from './contrast';
+export { createThemeModeScript, type ThemeModeScriptOptions } from './mode-script';
+export { toDtcgTokens, type DtcgDocument, type DtcgToken } from './dtcg';
+export { applyPalette, generateColorScale, type PaletteSeeds } from './palette';
+export {
+  androidResourceName,
+  createAndroidColorsXml,
+  createComposeColors,
+  createFlutterColors,
+  createNativeTokenFiles,
+  createSwiftColors,
+  type NativeTokensOptions
+} from './native';
+export {
+  diffFinexUi,
+  formatFinexUiDiff,
+  hasFinexUiChanges,
+  type DiffFinexUiOptions,
+  type FinexKeyAffects,
+  type FinexUiDiff,
+  type FinexValueChange
+} from './token-diff';
+export { createThemeRegistry, DEFAULT_BRAND, themeRegistry, type ThemeRegistry } from './registry';
@@ -0,0 +1,46 @@
+import { DEFAULT_THEME_MODE_STORAGE_KEY } from './mode-storage';
+import { themeModes } from './tokens';
+
+export type ThemeModeScriptOptions = {
+  /** 与 `FarmProvider storage` 保持一致（默认：localStorage） */
+  storage?: 'localStorage' | 'cookie' | 'none';
+  /** 与 `FarmProvider storageKey` 保持一致（默认：`farm-theme-mode`） */
+  storageKey?: string;
+  /** 没有持久化值时使用的模式（默认：light；传 `system` 时按 `prefers-color-scheme` 解析） */
+  defaultMode?: string;
+  /** 合法的模式（持久化值不在其中时回退到 `defaultMode`；默认：内置主题的模式） */
+  modes?: string[];
+  /** 同时设置 `data-brand`（多品牌场景） */
+  brand?: string;
+};
+
+/**
+ * 生成“首屏前”执行的内联脚本（放在 `<head>` 里、早于样式与应用代码）：
+ * - 从 localStorage/cookie 读取用户选择，`system` 按 `prefers-color-scheme` 解析
+ * - 把结果写到 `html[data-theme]`，让 `--farm-*` CSS 变量在首帧就命中正确的模式，避免 SSR 页面先亮后暗
+ *
+ * 返回的是脚本正文（不含 `<script>` 标签）；React 应用可直接使用 `FarmThemeScript`。
+ */
+export function createThemeModeScript(options: ThemeModeScriptOptions = {}): string {
+  const config = {
+    storage: options.storage ?? 'localStorage',
+    key: options.storageKey ?? DEFAULT_THEME_MODE_STORAGE_KEY,
+    defaultMode: options.defaultMode ?? 'light',
+    modes: options.modes ?? themeModes,
+    brand: options.brand ?? null
+  };
+  // 防止配置里的字符串提前闭合 `<script>`
+  const json = JSON.stringify(config).replaceAll('<', '\\u003c');
+
+  return [
+    '(function(){try{',
+    `var o=${json},m=null,d=document.documentElement;`,
+    "if(o.storage==='localStorage'){m=window.localStorage.getItem(o.key);}",
+    "else if(o.storage==='cookie'){var c=document.cookie.split(';');for(var i=0;i<c.length;i++){var j=c[i].indexOf('=');",
+    'if(j>-1&&c[i].slice(0,j).trim()===o.key){m=decodeURIComponent(c[i].slice(j+1).trim());break;}}}',
+    "if(m!=='system'&&o.modes.indexOf(m)<0)m=o.defaultMode;",
+    "if(m==='system')m=window.matchMedia&&window.matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light';",
+    "d.setAttribute('data-theme',m);if(o.brand)d.setAttribute('data-brand',o.brand);",
+    '}catch(e){}})();'
+  ].join('');
+}
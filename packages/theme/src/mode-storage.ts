@@ -0,0 +1,96 @@
+/**
+ * 主题模式的持久化适配器（供 `FarmProvider storage` 使用）。
+ *
+ * 约定：
+ * - 存的是用户“选择”的模式（可能是 `system`），而不是解析后的 light/dark
+ * - 所有实现都要能在 SSR 环境下安全调用（没有 window/document 时读到 null、写入忽略）
+ */
+
+export const DEFAULT_THEME_MODE_STORAGE_KEY = 'farm-theme-mode';
+
+export type FarmThemeModeStorage = {
+  get: () => string | null;
+  set: (mode: string) => void;
+  /** 可选：外部变更通知（例如其它标签页修改了 localStorage） */
+  subscribe?: (listener: () => void) => () => void;
+};
+
+export function createLocalStorageModeStorage(key: string = DEFAULT_THEME_MODE_STORAGE_KEY): FarmThemeModeStorage {
+  const getStorage = (): Storage | null => {
+    try {
+      return typeof window === 'undefined' ? null : window.localStorage;
+    } catch {
+      // 隐私模式/禁用存储时访问 localStorage 会抛错
+      return null;
+    }
+  };
+
+  return {
+    get() {
+      try {
+        return getStorage()?.getItem(key) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    set(mode) {
+      try {
+        getStorage()?.setItem(key, mode);
+      } catch {
+        // 存储已满/被禁用时放弃持久化，不影响当前会话的切换
+      }
+    },
+    subscribe(listener) {
+      if (typeof window === 'undefined') return () => {};
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === key) listener();
+      };
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    }
+  };
+}
+
+export type CookieModeStorageOptions = {
+  key?: string;
+  /** 过期时间（秒），默认一年 */
+  maxAge?: number;
+  path?: string;
+  domain?: string;
+  sameSite?: 'Lax' | 'Strict' | 'None';
+};
+
+/**
+ * 从 cookie 文本里读取模式（服务端可直接传请求头里的 `cookie`，用于 SSR 首屏输出正确的 `data-theme`）。
+ */
+export function readModeCookie(cookie: string, key: string = DEFAULT_THEME_MODE_STORAGE_KEY): string | null {
+  for (const part of cookie.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    if (part.slice(0, index).trim() !== key) continue;
+    try {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function createCookieModeStorage(options: CookieModeStorageOptions = {}): FarmThemeModeStorage {
+  const { key = DEFAULT_THEME_MODE_STORAGE_KEY, maxAge = 60 * 60 * 24 * 365, path = '/', domain, sameSite = 'Lax' } = options;
+
+  return {
+    get() {
+      if (typeof document === 'undefined') return null;
+      return readModeCookie(document.cookie, key);
+    },
+    set(mode) {
+      if (typeof document === 'undefined') return;
+      const parts = [`${key}=${encodeURIComponent(mode)}`, `path=${path}`, `max-age=${maxAge}`, `SameSite=${sameSite}`];
+      if (domain) parts.push(`domain=${domain}`);
+      if (sameSite === 'None') parts.push('Secure');
+      document.cookie = parts.join('; ');
+    }
+  };
+}
@@ -0,0 +1,174 @@
+import { parseColor } from './contrast';
+import { createTheme, cssVarName, getTokenCategory, type AntdTokenName, type ThemeBundle, type ThemeMode } from './tokens';
+
+/**
+ * 移动端颜色 token 产物（构建时写入 `dist/native/`）：
+ * - iOS：SwiftUI `Color` 结构体（`FarmColors.light.colorPrimary`）
+ * - Android：`colors.xml`（`values/` 为 light、`values-night/` 为 dark）+ Jetpack Compose `FarmColors`
+ * - Flutter：`ThemeExtension<FarmColors>`
+ *
+ * 命名约定（与 `cssVarName` 同源，保证三端能对上）：
+ * - Swift/Kotlin/Dart 属性名直接用 antd token 名：`colorPrimary`
+ * - Android 资源名取 CSS 变量名转下划线：`--farm-color-primary` -> `farm_color_primary`
+ *
+ * 只输出颜色类 token；尺寸/字体在各端有自己的体系，不在这里生成。
+ */
+
+export type NativeTokensOptions = {
+  /** 生成的类型名（默认：FarmColors） */
+  typeName?: string;
+  /** Kotlin 包名（默认：design.farm.tokens） */
+  packageName?: string;
+};
+
+const HEADER = 'Auto-generated by @farm-design-system/theme. Do not edit.';
+
+type Argb = { a: number; r: number; g: number; b: number };
+
+function toArgb(token: string, value: string): Argb {
+  const color = parseColor(value);
+  if (!color) {
+    throw new Error(`@farm-design-system/theme: 无法把 ${token} 的值 "${value}" 转成原生颜色（支持 hex/rgb/rgba）。`);
+  }
+  return { a: Math.round(color.a * 255), r: Math.round(color.r), g: Math.round(color.g), b: Math.round(color.b) };
+}
+
+/** `0xAARRGGBB`（Compose/Flutter 的 `Color(...)` 参数，Android XML 用 `#AARRGGBB`） */
+function toArgbHex(color: Argb): string {
+  return [color.a, color.r, color.g, color.b].map((n) => n.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/** `high-contrast` -> `highContrast` / `HighContrast` */
+function toModeIdentifier(mode: ThemeMode, pascal = false): string {
+  const camel = mode.replace(/[-_\s]+([a-z0-9])/gi, (_, char: string) => char.toUpperCase());
+  return pascal ? camel.charAt(0).toUpperCase() + camel.slice(1) : camel;
+}
+
+/** antd token -> Android 资源名：`colorPrimary` -> `farm_color_primary` */
+export function androidResourceName(token: AntdTokenName): string {
+  return cssVarName(token).slice(2).replaceAll('-', '_');
+}
+
+function colorTokens(bundle: ThemeBundle, mode: ThemeMode): Array<[token: AntdTokenName, color: Argb]> {
+  return (Object.entries(bundle.tokens[mode] ?? {}) as Array<[AntdTokenName, string]>)
+    .filter(([token]) => getTokenCategory(token) === 'color')
+    .map(([token, value]) => [token, toArgb(token, value)]);
+}
+
+function colorTokenNames(bundle: ThemeBundle): AntdTokenName[] {
+  return colorTokens(bundle, 'light').map(([token]) => token);
+}
+
+export function createSwiftColors(bundle: ThemeBundle = createTheme(), options: NativeTokensOptions = {}): string {
+  const typeName = options.typeName ?? 'FarmColors';
+  const channel = (n: number) => String(Math.round((n / 255) * 10000) / 10000);
+  const lines = [`// ${HEADER}`, 'import SwiftUI', '', `public struct ${typeName}: Equatable {`];
+
+  for (const token of colorTokenNames(bundle)) lines.push(`    public let ${token}: Color`);
+  for (const mode of bundle.modes) {
+    lines.push('', `    public static let ${toModeIdentifier(mode)} = ${typeName}(`);
+    const entries = colorTokens(bundle, mode).map(
+      ([token, c]) =>
+        `        ${token}: Color(.sRGB, red: ${channel(c.r)}, green: ${channel(c.g)}, blue: ${channel(c.b)}, opacity: ${channel(c.a)})`
+    );
+    lines.push(entries.join(',\n'), '    )');
+  }
+  lines.push('}', '');
+  return lines.join('\n');
+}
+
+/** Android 资源文件：light 放 `values/`，dark 放 `values-night/`（其它模式没有对应的资源限定符） */
+export function createAndroidColorsXml(bundle: ThemeBundle = createTheme(), mode: ThemeMode = 'light'): string {
+  const lines = ['<?xml version="1.0" encoding="utf-8"?>', `<!-- ${HEADER} -->`, '<resources>'];
+  for (const [token, color] of colorTokens(bundle, mode)) {
+    lines.push(`    <color name="${androidResourceName(token)}">#${toArgbHex(color)}</color>`);
+  }
+  lines.push('</resources>', '');
+  return lines.join('\n');
+}
+
+export function createComposeColors(bundle: ThemeBundle = createTheme(), options: NativeTokensOptions = {}): string {
+  const typeName = options.typeName ?? 'FarmColors';
+  const lines = [
+    `// ${HEADER}`,
+    `package ${options.packageName ?? 'design.farm.tokens'}`,
+    '',
+    'import androidx.compose.runtime.Immutable',
+    'import androidx.compose.ui.graphics.Color',
+    '',
+    '@Immutable',
+    `data class ${typeName}(`
+  ];
+
+  lines.push(colorTokenNames(bundle).map((token) => `    val ${token}: Color`).join(',\n'));
+  lines.push(') {', '    companion object {');
+  bundle.modes.forEach((mode, index) => {
+    if (index > 0) lines.push('');
+    lines.push(`        val ${toModeIdentifier(mode, true)} = ${typeName}(`);
+    lines.push(colorTokens(bundle, mode).map(([token, c]) => `            ${token} = Color(0x${toArgbHex(c)})`).join(',\n'));
+    lines.push('        )');
+  });
+  lines.push('    }', '}', '');
+  return lines.join('\n');
+}
+
+export function createFlutterColors(bundle: ThemeBundle = createTheme(), options: NativeTokensOptions = {}): string {
+  const typeName = options.typeName ?? 'FarmColors';
+  const tokens = colorTokenNames(bundle);
+  const lines = [
+    `// ${HEADER}`,
+    "import 'package:flutter/material.dart';",
+    '',
+    '@immutable',
+    `class ${typeName} extends ThemeExtension<${typeName}> {`,
+    `  const ${typeName}({`,
+    ...tokens.map((token) => `    required this.${token},`),
+    '  });',
+    '',
+    ...tokens.map((token) => `  final Color ${token};`)
+  ];
+
+  for (const mode of bundle.modes) {
+    lines.push('', `  static const ${toModeIdentifier(mode)} = ${typeName}(`);
+    lines.push(...colorTokens(bundle, mode).map(([token, c]) => `    ${token}: Color(0x${toArgbHex(c)}),`));
+    lines.push('  );');
+  }
+
+  lines.push(
+    '',
+    '  @override',
+    `  ${typeName} copyWith({`,
+    ...tokens.map((token) => `    Color? ${token},`),
+    '  }) {',
+    `    return ${typeName}(`,
+    ...tokens.map((token) => `      ${token}: ${token} ?? this.${token},`),
+    '    );',
+    '  }',
+    '',
+    '  @override',
+    `  ${typeName} lerp(${typeName}? other, double t) {`,
+    `    if (other is! ${typeName}) return this;`,
+    `    return ${typeName}(`,
+    ...tokens.map((token) => `      ${token}: Color.lerp(${token}, other.${token}, t)!,`),
+    '    );',
+    '  }',
+    '}',
+    ''
+  );
+  return lines.join('\n');
+}
+
+/**
+ * 一次生成所有移动端产物：key 为相对 `dist/native/` 的路径。
+ */
+export function createNativeTokenFiles(bundle: ThemeBundle = createTheme(), options: NativeTokensOptions = {}): Record<string, string> {
+  const typeName = options.typeName ?? 'FarmColors';
+  const fileBase = typeName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+  return {
+    [`ios/${typeName}.swift`]: createSwiftColors(bundle, options),
+    [`android/values/${fileBase}.xml`]: createAndroidColorsXml(bundle, 'light'),
+    [`android/values-night/${fileBase}.xml`]: createAndroidColorsXml(bundle, 'dark'),
+    [`android/${typeName}.kt`]: createComposeColors(bundle, options),
+    [`flutter/${fileBase}.dart`]: createFlutterColors(bundle, options)
+  };
+}
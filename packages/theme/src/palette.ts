@@ -0,0 +1,261 @@
+import { getContrastRatio, parseColor } from './contrast';
+import {
+  antdComponentsMap,
+  antdTokenMap,
+  finexUi as defaultFinexUi,
+  inferModeAlgorithms,
+  isAntdTokenName,
+  type FinexUi,
+  type ThemeMode
+} from './tokens';
+
+/**
+ * 从少量种子色生成整套品牌/状态色（新子产品只给一个主色也能得到完整的 light/dark 主题）：
+ *
+ * ```ts
+ * const theme = createTheme({ finexUi: applyPalette({ brand: '#00b96b' }) });
+ * ```
+ *
+ * 约定：
+ * - 色阶在 OKLCH 空间生成（明度均匀、色相不漂移），light 第 6 阶就是种子色本身
+ * - 结果写回 finex 层：映射到同一个 finex key 的 token（含组件 token）始终同值，与设计源的命名保持一致
+ * - 实底色与文字色会按 WCAG AA（4.5:1）微调明度：实底对 `colorTextLightSolid`，文字对 `colorBgContainer` 与同组浅底
+ */
+
+export type PaletteSeeds = {
+  /** 主色（colorPrimary / colorLink 一组） */
+  brand?: string;
+  success?: string;
+  warning?: string;
+  error?: string;
+  info?: string;
+};
+
+type PaletteSeedName = keyof PaletteSeeds;
+type PaletteRole = 'solid' | 'hover' | 'active' | 'bg' | 'bgHover' | 'border' | 'borderHover' | 'text' | 'textHover' | 'textActive';
+type ScaleKind = 'light' | 'dark';
+
+/** 角色在 10 阶色阶里的位置（暗色下 hover 更亮、active 更暗，与 antd 的暗色算法一致） */
+const roleSteps: Record<PaletteRole, Record<ScaleKind, number>> = {
+  bg: { light: 1, dark: 1 },
+  bgHover: { light: 2, dark: 2 },
+  border: { light: 3, dark: 3 },
+  borderHover: { light: 4, dark: 4 },
+  hover: { light: 5, dark: 7 },
+  solid: { light: 6, dark: 6 },
+  active: { light: 7, dark: 5 },
+  text: { light: 6, dark: 6 },
+  textHover: { light: 5, dark: 7 },
+  textActive: { light: 7, dark: 5 }
+};
+
+function statusRoles(prefix: string): Record<string, PaletteRole> {
+  return {
+    [prefix]: 'solid',
+    [`${prefix}Hover`]: 'hover',
+    [`${prefix}Active`]: 'active',
+    [`${prefix}Bg`]: 'bg',
+    [`${prefix}BgHover`]: 'bgHover',
+    [`${prefix}Border`]: 'border',
+    [`${prefix}BorderHover`]: 'borderHover',
+    [`${prefix}Text`]: 'text',
+    [`${prefix}TextHover`]: 'textHover',
+    [`${prefix}TextActive`]: 'textActive'
+  };
+}
+
+/**
+ * 种子色 -> 受影响的 token（antd 全局 token 或 `Component.token`）。
+ * 同一个 finex key 被多个 token 引用时，以先出现的角色取色，其余角色只追加对比度约束。
+ */
+const paletteTokenRoles: Record<PaletteSeedName, Record<string, PaletteRole>> = {
+  brand: {
+    ...statusRoles('colorPrimary'),
+    'Button.colorPrimary': 'solid',
+    'Button.colorPrimaryHover': 'hover',
+    'Button.colorPrimaryActive': 'active',
+    colorLink: 'text',
+    colorLinkHover: 'textHover',
+    colorLinkActive: 'textActive'
+  },
+  success: statusRoles('colorSuccess'),
+  warning: statusRoles('colorWarning'),
+  error: statusRoles('colorError'),
+  info: statusRoles('colorInfo')
+};
+
+const MIN_CONTRAST = 4.5;
+
+type Oklch = { l: number; c: number; h: number };
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number): number {
+  const c = channel <= 0.0031308 ? channel * 12.92 : 1.055 * channel ** (1 / 2.4) - 0.055;
+  return c * 255;
+}
+
+function toOklch(value: string): Oklch {
+  const color = parseColor(value);
+  if (!color) {
+    throw new Error(`@farm-design-system/theme: 无法解析种子色 "${value}"（支持 hex/rgb/rgba）。`);
+  }
+  const [r, g, b] = [color.r, color.g, color.b].map(toLinear) as [number, number, number];
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  return { l: L, c: Math.hypot(A, B), h: Math.atan2(B, A) };
+}
+
+/** OKLCH -> 线性 sRGB（可能超出 0~1，由调用方做色域映射） */
+function oklchToLinear({ l: L, c, h }: Oklch): [number, number, number] {
+  const A = c * Math.cos(h);
+  const B = c * Math.sin(h);
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+  ];
+}
+
+function inGamut(rgb: number[]): boolean {
+  return rgb.every((channel) => channel >= -1e-4 && channel <= 1 + 1e-4);
+}
+
+/** 超出 sRGB 色域时保持明度与色相、降低彩度 */
+function toHex(color: Oklch): string {
+  let rgb = oklchToLinear(color);
+  if (!inGamut(rgb)) {
+    let [low, high] = [0, color.c];
+    for (let i = 0; i < 20; i += 1) {
+      const mid = (low + high) / 2;
+      if (inGamut(oklchToLinear({ ...color, c: mid }))) low = mid;
+      else high = mid;
+    }
+    rgb = oklchToLinear({ ...color, c: low });
+  }
+  const channels = rgb.map((channel) => Math.round(Math.min(255, Math.max(0, fromLinear(Math.min(1, Math.max(0, channel)))))));
+  return `#${channels.map((n) => n.toString(16).padStart(2, '0')).join('')}`;
+}
+
+const lightChroma = [0.18, 0.32, 0.5, 0.7, 0.88, 1, 0.95, 0.88, 0.78, 0.68];
+const darkChroma = [0.22, 0.32, 0.48, 0.65, 0.85, 0.92, 0.85, 0.72, 0.55, 0.4];
+
+function scaleColor(seed: Oklch, step: number, kind: ScaleKind): Oklch {
+  const index = step - 1;
+  if (kind === 'light') {
+    const l =
+      step < 6 ? seed.l + (0.97 - seed.l) * ((6 - step) / 5) ** 0.8 : seed.l - (seed.l - 0.28) * ((step - 6) / 4) ** 0.9;
+    return { l, c: seed.c * lightChroma[index]!, h: seed.h };
+  }
+  // 暗色：第 6 阶保证在深色背景上可辨认，低阶向背景收拢、高阶提亮
+  const base = Math.min(0.75, Math.max(0.6, seed.l));
+  const l = step < 6 ? base - (base - 0.24) * ((6 - step) / 5) ** 0.9 : base + (0.92 - base) * ((step - 6) / 4);
+  return { l, c: seed.c * darkChroma[index]!, h: seed.h };
+}
+
+/**
+ * 生成 10 阶色阶（下标 0 对应第 1 阶）：
+ * - light：1 最浅 -> 10 最深，第 6 阶为种子色
+ * - dark：1 最接近深色背景 -> 10 最亮，第 6 阶为适合深色背景的主色
+ */
+export function generateColorScale(seed: string, kind: ScaleKind = 'light'): string[] {
+  const base = toOklch(seed);
+  return Array.from({ length: 10 }, (_, index) => toHex(scaleColor(base, index + 1, kind)));
+}
+
+function finexKeyOf(ref: string): string | undefined {
+  if (!ref.includes('.')) return isAntdTokenName(ref) ? antdTokenMap[ref] : undefined;
+  const [component, token] = ref.split('.', 2) as [string, string];
+  return (antdComponentsMap as Record<string, Record<string, string>>)[component]?.[token];
+}
+
+type ContrastTarget = 'lightSolid' | 'container' | 'bg';
+
+function roleTargets(role: PaletteRole): ContrastTarget[] {
+  if (role === 'solid') return ['lightSolid'];
+  if (role === 'text' || role === 'textHover' || role === 'textActive') return ['container', 'bg'];
+  return [];
+}
+
+/**
+ * 在保持色相/彩度的前提下调整明度，使其对所有背景都达到 4.5:1：
+ * - 优先满足全部约束，其次只满足取色角色自己的约束（例如暗色实底与暗色文字互相冲突时保证实底）
+ * - 都无法满足时取最小对比度最大的明度
+ */
+function fitContrast(color: string, groups: string[][], backdrop: string): string {
+  const meets = (value: string, backgrounds: string[]) =>
+    backgrounds.every((background) => getContrastRatio(value, background, backdrop) >= MIN_CONTRAST);
+  const all = groups.flat();
+  if (meets(color, all)) return color;
+
+  const start = toOklch(color);
+  const candidates = Array.from({ length: 199 }, (_, index) => 0.005 * (index + 1))
+    .sort((a, b) => Math.abs(a - start.l) - Math.abs(b - start.l))
+    .map((l) => toHex({ ...start, l }));
+
+  for (const backgrounds of [all, groups[0] ?? []]) {
+    const match = candidates.find((candidate) => meets(candidate, backgrounds));
+    if (match) return match;
+  }
+
+  const minRatio = (value: string) => Math.min(...all.map((background) => getContrastRatio(value, background, backdrop)));
+  return candidates.reduce((best, candidate) => (minRatio(candidate) > minRatio(best) ? candidate : best), color);
+}
+
+/**
+ * 把种子色生成的色值写回 finex（默认：内置的 `finexUi`），返回新的 `FinexUi`，可直接传给 `createTheme({ finexUi })`
+ * 或 `themeRegistry.register(brand, { finexUi })`。
+ * - 每个模式按 `inferModeAlgorithms` 选择亮色/暗色色阶，对比度按该模式自己的背景色计算
+ * - 只改动种子色对应的 finex key，其余 token（中性色、尺寸等）保持不变
+ */
+export function applyPalette(seeds: PaletteSeeds, finex: FinexUi = defaultFinexUi): FinexUi {
+  const result = {} as FinexUi;
+
+  for (const [mode, modeFinex] of Object.entries(finex) as Array<[ThemeMode, Record<string, string>]>) {
+    const kind: ScaleKind = inferModeAlgorithms(mode).includes('dark') ? 'dark' : 'light';
+    const container = modeFinex[antdTokenMap.colorBgContainer!] ?? (kind === 'dark' ? '#000000' : '#ffffff');
+    const lightSolid = modeFinex[antdTokenMap.colorTextLightSolid!] ?? '#ffffff';
+    const next = { ...modeFinex };
+
+    for (const [seedName, seed] of Object.entries(seeds) as Array<[PaletteSeedName, string | undefined]>) {
+      if (!seed) continue;
+      const scale = generateColorScale(seed, kind);
+
+      // finex key -> 取色角色 + 所有引用它的角色
+      const keys = new Map<string, { owner: PaletteRole; roles: PaletteRole[] }>();
+      for (const [ref, role] of Object.entries(paletteTokenRoles[seedName])) {
+        const finexKey = finexKeyOf(ref);
+        if (!finexKey || !(finexKey in modeFinex)) continue;
+        const entry = keys.get(finexKey);
+        if (entry) entry.roles.push(role);
+        else keys.set(finexKey, { owner: role, roles: [role] });
+      }
+
+      const bgKey = [...keys].find(([, entry]) => entry.owner === 'bg')?.[0];
+      const bg = bgKey ? scale[roleSteps.bg[kind] - 1]! : undefined;
+      const backgrounds: Record<ContrastTarget, string | undefined> = { lightSolid, container, bg };
+
+      for (const [finexKey, { owner, roles }] of keys) {
+        const color = scale[roleSteps[owner][kind] - 1]!;
+        const resolve = (role: PaletteRole) =>
+          roleTargets(role).flatMap((target) => (backgrounds[target] ? [backgrounds[target]!] : []));
+        const groups = [resolve(owner), ...roles.slice(1).map(resolve)];
+        next[finexKey] = groups.some((group) => group.length > 0) ? fitContrast(color, groups, container) : color;
+      }
+    }
+
+    result[mode] = next;
+  }
+
+  return result;
+}
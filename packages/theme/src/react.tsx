@@ -1,44 +1,166 @@
 import React from 'react';
 import { ConfigProvider, theme as antdTheme } from 'antd';
-import type { ConfigProviderProps } from 'antd';
-import { useStyleRegister, type CSSObject } from '@ant-design/cssinjs';
+import type { ConfigProviderProps, ThemeConfig } from 'antd';
+import {
+  Keyframes,
+  StyleContext,
+  token2CSSVar,
+  useStyleRegister,
+  type CSSInterpolation,
+  type CSSObject
+} from '@ant-design/cssinjs';
 import type { GlobalToken } from 'antd/es/theme/interface';
 
-import { antdTheme as farmAntdTheme, createTokensCss, type ThemeMode } from './tokens';
+import {
+  createCookieModeStorage,
+  createLocalStorageModeStorage,
+  DEFAULT_THEME_MODE_STORAGE_KEY,
+  type FarmThemeModeStorage
+} from './mode-storage';
+import {
+  FarmScopeContext,
+  FarmThemeModeContext,
+  type FarmScopeContextValue,
+  type FarmThemeMode,
+  type FarmThemeModeContextValue,
+  type FarmThemeModeSetting
+} from './context';
+import { createThemeModeScript, type ThemeModeScriptOptions } from './mode-script';
+import { DEFAULT_BRAND, themeRegistry, type ThemeRegistry } from './registry';
+import {
+  createTokensCss,
+  extendTheme,
+  type ThemeAlgorithm,
+  type ThemeBundle,
+  type ThemeOverrides
+} from './tokens';
+
+export {
+  createCookieModeStorage,
+  createLocalStorageModeStorage,
+  DEFAULT_THEME_MODE_STORAGE_KEY,
+  readModeCookie,
+  type CookieModeStorageOptions,
+  type FarmThemeModeStorage
+} from './mode-storage';
+export { createThemeModeScript, type ThemeModeScriptOptions } from './mode-script';
+export { ThemeEditor, type ThemeEditorProps } from './theme-editor';
+export {
+  useFarmThemeMode,
+  type FarmThemeMode,
+  type FarmThemeModeContextValue,
+  type FarmThemeModeSetting
+} from './context';
 
-export type FarmThemeMode = ThemeMode;
 export type FarmThemeScope = 'wrap' | 'document';
 export type Theme = GlobalToken;
 export type { CSSObject };
 
 export type FarmProviderProps = {
-  /** light/dark；用于驱动主题切换（默认：light）。 */
-  mode?: FarmThemeMode;
+  /**
+   * 主题模式（light/dark、`system` 或品牌主题里的其它模式，例如 `high-contrast`）。
+   * - 传入时为受控模式：`useFarmThemeMode().setMode` 只会触发 `onModeChange` 与持久化
+   * - 不传时由 `FarmProvider` 自己维护（初始值：持久化的值 > `defaultMode`）
+   */
+  mode?: FarmThemeModeSetting;
+  /** 非受控时的初始模式（默认：light） */
+  defaultMode?: FarmThemeModeSetting;
+  /** `setMode` 被调用时触发（受控模式下用于回写 state） */
+  onModeChange?: (mode: FarmThemeModeSetting) => void;
+  /**
+   * 模式持久化：
+   * - `localStorage`：存到 `localStorage[storageKey]`，并同步其它标签页的修改
+   * - `cookie`：存到 cookie（服务端可用 `readModeCookie()` 读取，首屏直接输出正确的 `data-theme`）
+   * - 也可传入自定义适配器（`{ get, set, subscribe? }`）
+   *
+   * 默认：不持久化
+   */
+  storage?: 'localStorage' | 'cookie' | FarmThemeModeStorage;
+  /** 持久化使用的 key（默认：`farm-theme-mode`） */
+  storageKey?: string;
   /**
    * mode 生效范围：
    * - wrap：用一个 div 包裹 children，并设置 `data-theme`
    * - document：设置到 `document.documentElement`（不额外包裹 DOM）
    *
-   * 默认：document
+   * 默认：document；嵌套在另一个 `FarmProvider` 内时默认 wrap
    */
   scope?: FarmThemeScope;
+  /**
+   * 局部覆写 token（key 为 antd token 名，value 为最终值，规则同 `createTheme({ overrides })`）。
+   * - 嵌套使用时叠加在外层主题之上，只影响当前子树（例如在浅色应用里放一块品牌色不同的侧栏）
+   */
+  overrides?: ThemeOverrides;
+  /**
+   * 品牌名（需先通过 `themeRegistry.register()` 注册）：
+   * - 切换品牌会同时刷新 antd 主题与注入的 `--farm-*` CSS 变量
+   * - 同时会在生效范围上设置 `data-brand`，CSS 变量按 `[data-brand="x"]` 收窄
+   *
+   * 默认：嵌套时继承外层品牌，否则使用内置主题（不设置 `data-brand`）
+   */
+  brand?: string;
+  /** 品牌注册表（默认：外层 `FarmProvider` 的注册表或 `themeRegistry`） */
+  registry?: ThemeRegistry;
   /**
    * CSS 变量声明文本（通常来自 `createTokensCss()` 或 `createTheme().cssVars`）。
-   * - 默认会注入 `createTokensCss()` 的结果（变量名基于 antd token，包含 light/dark 两套选择器）
+   * - 默认：最外层注入当前品牌的 `createTokensCss()` 结果（变量名基于 antd token，每个模式一套选择器）；
+   *   嵌套的 `FarmProvider` 只注入与全局变量不同的部分，并收窄到自己的子树
    * - 传空字符串可关闭注入
    */
   tokensCss?: string;
   /**
    * 透传给 antd 的 `ConfigProvider` 的主题配置（通常来自 `antdTheme[mode]` 或 `createTheme().antdTheme[mode]`）。
-   * - 默认会注入 `antdTheme[mode]`，并按 mode 自动选择 antd algorithm
+   * - 默认会注入当前品牌的 `antdTheme[mode]`，并按 `bundle.algorithms[mode]` 选择 antd algorithm
    * - 传入时会与默认值做合并（token/components 以传入为准）
    */
   antdTheme?: ConfigProviderProps['theme'];
+  /**
+   * antd CSS 变量模式：开启后 antd 的 `theme.cssVar` 使用 `farm` 前缀，组件样式直接引用 `--farm-*`，
+   * 与 `createTokensCss()` 注入的变量同名（同一个 token 在 antd 组件、`createStyles`、Tailwind 里是同一个变量）。
+   * - 交给 antd 的主题固定为第一个模式（不随模式变化），各模式的 antd 变量由 `FarmProvider` 按 `[data-theme]` 输出：
+   *   切换模式时只是换了一套命中的变量，antd 不会重新生成组件样式或变量声明
+   * - 按模式输出的是全局 token（含 algorithm 派生值）与主题里声明过的组件 token；
+   *   antd 由全局 token 派生、且未在 `antdComponentsMap` 里声明的组件变量按第一个模式计算
+   * - `useTheme()` 与 `createStyles` 拿到的 token 仍按当前模式计算（不受 antd 主题固定的影响）
+   * - 最外层使用固定的 `cssVar.key`（`farm`），SSR 输出与客户端一致；嵌套层使用各自的 key
+   *
+   * 默认：false；嵌套的 `FarmProvider` 继承外层设置
+   */
+  cssVar?: boolean;
+  /**
+   * 组件样式覆写（按组件名 → slot）：合并进对应 `createStyles({ name })` 的输出，同名属性以这里为准。
+   * - 值可以是样式对象，或 `(theme) => 样式对象`
+   * - 嵌套的 `FarmProvider` 叠加在外层配置之上
+   *
+   * ```tsx
+   * <FarmProvider components={{ Button: { primary: { height: 56 } }, Modal: { titleText: (t) => ({ fontSize: t.fontSizeXL }) } }}>
+   * ```
+   */
+  components?: FarmComponentsConfig;
   /** 透传给 antd `ConfigProvider` 的其它参数（locale/prefixCls/componentSize 等）。 */
   antdConfig?: Omit<ConfigProviderProps, 'children' | 'theme'>;
   children?: React.ReactNode;
 };
 
+/**
+ * 组件样式 slot 的类型注册表：组件库通过模块扩充声明自己的组件与 slot，`FarmProvider components` 据此提示。
+ *
+ * ```ts
+ * declare module '@farm-design-system/theme/react' {
+ *   interface FarmComponentSlots {
+ *     Button: 'primary' | 'cancel';
+ *   }
+ * }
+ * ```
+ */
+export interface FarmComponentSlots {}
+
+export type FarmSlotStyle = CSSObject | ((theme: Theme) => CSSObject);
+
+export type FarmComponentsConfig = {
+  [C in keyof FarmComponentSlots]?: { [S in FarmComponentSlots[C] & string]?: FarmSlotStyle };
+};
+
 type ClassNameValue = string | undefined | null | false;
 
 export function cx(...classNames: ClassNameValue[]): string {
@@ -72,34 +194,289 @@ function safeClassNamePart(input: string): string {
 }
 
 export function useTheme(): Theme {
-  return antdTheme.useToken().token;
+  return useStyleToken().token;
 }
 
-export function createStyles<Styles extends Record<string, CSSObject>>(stylesFn: (theme: Theme) => Styles): () => {
-  styles: { [K in keyof Styles]: string };
-  cx: typeof cx;
-  theme: Theme;
+/**
+ * `antdTheme.useToken()`，但 cssVar 模式下 token 换成当前模式的值：
+ * 此时交给 antd 的主题固定为第一个模式（见 `FarmProvider cssVar`），`useToken()` 的 token 不随模式变化。
+ */
+function useStyleToken(): ReturnType<typeof antdTheme.useToken> {
+  const result = antdTheme.useToken();
+  const modeToken = React.useContext(FarmScopeContext)?.modeToken;
+  return modeToken ? { ...result, token: modeToken } : result;
+}
+
+export type Breakpoint = 'xs' | 'sm' | 'md' | 'lg' | 'xl' | 'xxl';
+
+/**
+ * 基于 antd 断点 token（`screenSMMin/screenMDMax` 等）生成媒体查询 key：
+ * - `responsive.md` / `responsive.up('md')`：`@media (min-width: 768px)`（md 及以上，移动优先）
+ * - `responsive.down('md')`：`@media (min-width: 0px) and (max-width: 991px)`（md 及以下）
+ * - `responsive.between('sm', 'lg')`：sm ~ lg（含两端）
+ */
+export type Responsive = Record<Breakpoint, string> & {
+  up: (breakpoint: Breakpoint) => string;
+  down: (breakpoint: Breakpoint) => string;
+  between: (min: Breakpoint, max: Breakpoint) => string;
 };
 
-export function createStyles<Params, Styles extends Record<string, CSSObject>>(
-  stylesFn: (theme: Theme, params: Params) => Styles
-) : (params: Params) => {
+/** 样式函数的第三个参数 */
+export type StyleUtils = {
+  /**
+   * 注册 `@keyframes` 并返回动画名（同一份 frames 在同一主题下名字稳定，SSR 与客户端一致）：
+   * `animation: \`${keyframes('fade-in', { from: { opacity: 0 }, to: { opacity: 1 } })} 0.2s\``
+   */
+  keyframes: (name: string, frames: Record<string, CSSObject>) => string;
+  responsive: Responsive;
+  /**
+   * `createStyles({ name })` 时为当前 antd 主题里 `components[name]` 的组件 token（含 Finex 映射出的、antd 本身没有的 token，
+   * 例如 Button 的 `warningBg`）；不在 `FarmProvider` 内或未传 `name` 时为空对象，使用方需回退到全局 token。
+   */
+  componentToken: Readonly<Record<string, string | number | undefined>>;
+};
+
+const EMPTY_COMPONENT_TOKEN: StyleUtils['componentToken'] = {};
+
+const BREAKPOINTS: Breakpoint[] = ['xs', 'sm', 'md', 'lg', 'xl', 'xxl'];
+
+function createResponsive(token: Theme): Responsive {
+  // 与 antd Grid 一致：xs 从 0 开始，xxl 没有上限
+  const min = (breakpoint: Breakpoint) =>
+    breakpoint === 'xs' ? 0 : token[`screen${breakpoint.toUpperCase() as Uppercase<Exclude<Breakpoint, 'xs'>>}Min`];
+  const max = (breakpoint: Breakpoint) =>
+    breakpoint === 'xxl' ? undefined : token[`screen${breakpoint.toUpperCase() as Uppercase<Exclude<Breakpoint, 'xxl'>>}Max`];
+  const between = (from: Breakpoint, to: Breakpoint) => {
+    const upper = max(to);
+    return `@media (min-width: ${min(from)}px)${upper === undefined ? '' : ` and (max-width: ${upper}px)`}`;
+  };
+
+  const responsive = {
+    up: (breakpoint: Breakpoint) => `@media (min-width: ${min(breakpoint)}px)`,
+    down: (breakpoint: Breakpoint) => between('xs', breakpoint),
+    between
+  } as Responsive;
+  for (const breakpoint of BREAKPOINTS) responsive[breakpoint] = responsive.up(breakpoint);
+  return responsive;
+}
+
+/**
+ * 一次样式计算用到的工具：`keyframes` 收集到 `registered`，随同一次 `useStyleRegister` 注入。
+ * - 动画名：`farm-<name>-<frames hash>`，有 hashId 时 cssinjs 会再加上主题 hash 前缀
+ */
+function createStyleUtils(
+  token: Theme,
+  hashId: string,
+  componentToken: StyleUtils['componentToken'] = EMPTY_COMPONENT_TOKEN
+): { utils: StyleUtils; registered: Keyframes[] } {
+  const registered: Keyframes[] = [];
+  const keyframes = (name: string, frames: Record<string, CSSObject>) => {
+    const animation = new Keyframes(`farm-${safeClassNamePart(name)}-${hashString(stableStringify(frames))}`, frames);
+    if (!registered.some((item) => item.getName() === animation.getName())) registered.push(animation);
+    return animation.getName(hashId);
+  };
+  return { utils: { keyframes, responsive: createResponsive(token), componentToken }, registered };
+}
+
+/** 已注入的样式：path -> 使用者数量与第一次注入时新出现的 `<style>` id */
+const ownedStyles = new Map<string, { count: number; ids: string[] }>();
+/** keyframes 的 `<style>` 按 id 单独计数：同一份 keyframes 可能被多份样式共用 */
+const keyframesRefCounts = new Map<string, number>();
+
+// 以下两个约定是 cssinjs 的内部实现（未导出），所以 package.json 锁定了 cssinjs 的版本，
+// `styles-cleanup.test.tsx` 对照真实输出校验；升级时两边一起看
+/** cssinjs 写在 `<style>` 上的标记属性（`ATTR_MARK`） */
+const STYLE_MARK = 'data-css-hash';
+/** cssinjs 为 keyframes 单独插入的 `<style>` 的 id 前缀（后接 `Keyframes#getName(hashId)`） */
+const KEYFRAMES_STYLE_PREFIX = '_effect-';
+
+function collectStyleIds(root: ParentNode): Set<string> {
+  const ids = new Set<string>();
+  root.querySelectorAll(`style[${STYLE_MARK}]`).forEach((node) => ids.add(node.getAttribute(STYLE_MARK)!));
+  return ids;
+}
+
+/**
+ * `useStyleRegister` + 引用计数清理：cssinjs 在最后一个使用者卸载时只删缓存、不删 `<style>`（参数一变就多一条规则，且永远留在页面上）。
+ * - 计数由这里按 path 维护：第一个使用者注入前后对比 `<style>`，记下新出现的 id；最后一个使用者卸载时移除
+ * - keyframes 按 id 计数，没有任何样式再用到时才移除
+ * - 之后再有组件用到同一份样式时，cssinjs 会重新生成并插入
+ */
+function useOwnedStyleRegister(
+  info: Parameters<typeof useStyleRegister>[0],
+  styleFn: () => CSSInterpolation,
+  keyframes: Keyframes[]
+): void {
+  const { container } = React.useContext(StyleContext);
+  const key = [info.hashId ?? '', ...info.path].join('|');
+  const keyframesKey = keyframes.map((item) => `${KEYFRAMES_STYLE_PREFIX}${item.getName(info.hashId)}`).join('|');
+  const existingRef = React.useRef<Set<string> | null>(null);
+
+  // 在 cssinjs 插入之前记下已有的 `<style>`
+  React.useInsertionEffect(() => {
+    if (typeof document === 'undefined' || ownedStyles.has(key)) return;
+    existingRef.current = collectStyleIds(container ?? document.head);
+  }, [container, key]);
+
+  useStyleRegister(info, styleFn);
+
+  React.useInsertionEffect(() => {
+    if (typeof document === 'undefined') return;
+    const root = container ?? document.head;
+    const keyframesIds = keyframesKey ? keyframesKey.split('|') : [];
+
+    let owned = ownedStyles.get(key);
+    if (!owned) {
+      const existing = existingRef.current ?? new Set<string>();
+      const ids = [...collectStyleIds(root)].filter((id) => !existing.has(id) && !keyframesIds.includes(id));
+      owned = { count: 0, ids };
+      ownedStyles.set(key, owned);
+    }
+    const entry = owned;
+    entry.count += 1;
+    for (const id of keyframesIds) keyframesRefCounts.set(id, (keyframesRefCounts.get(id) ?? 0) + 1);
+
+    return () => {
+      const removed: string[] = [];
+      entry.count -= 1;
+      if (entry.count === 0) {
+        ownedStyles.delete(key);
+        removed.push(...entry.ids);
+      }
+      for (const id of keyframesIds) {
+        const count = (keyframesRefCounts.get(id) ?? 1) - 1;
+        if (count > 0) {
+          keyframesRefCounts.set(id, count);
+        } else {
+          keyframesRefCounts.delete(id);
+          removed.push(id);
+        }
+      }
+      for (const id of removed) root.querySelectorAll(`style[${STYLE_MARK}="${id}"]`).forEach((node) => node.remove());
+    };
+  }, [container, key, keyframesKey]);
+}
+
+/**
+ * `cssVarParams` 模式下样式函数拿到的 params：每个值都是 `var(--farm-param-xxx)`，需要运算时用 `calc()`。
+ */
+export type CssVarParams<Params> = { readonly [K in keyof Params]-?: string };
+
+/** `cssVarParams` 模式的参数值：数字按 px 输出，undefined 表示不设置（样式里的 `var()` 不生效） */
+export type CssVarParamValue = string | number | undefined;
+
+export type CreateStylesOptions = {
+  /**
+   * params 以 CSS 变量进入样式：
+   * - 样式只按主题计算一次，每个 slot 一条静态规则；参数变化不再生成新规则
+   * - 参数值通过返回值里的 `vars[slot]`（inline style）下发，需要与 `styles[slot]` 一起用在同一个元素上
+   */
+  cssVarParams?: boolean;
+  /** 组件名：`FarmProvider components[name]` 里同名 slot 的样式会合并进来 */
+  name?: string;
+};
+
+export type StylesResult<Styles> = {
   styles: { [K in keyof Styles]: string };
+  /** `cssVarParams` 模式下每个 slot 的 inline style（只含该 slot 用到的变量）；其它情况为空对象 */
+  vars: { [K in keyof Styles]: React.CSSProperties };
   cx: typeof cx;
   theme: Theme;
+  /** 同样式函数的 `utils.componentToken`（需要把组件 token 写进 inline style 时用） */
+  componentToken: StyleUtils['componentToken'];
 };
 
+const CSS_VAR_PARAM_PREFIX = '--farm-param-';
+const CSS_VAR_PARAM_PATTERN = /var\(--farm-param-([a-z0-9-]+)\)/g;
+
+function toCssVarParamName(key: string): string {
+  return `${CSS_VAR_PARAM_PREFIX}${key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()}`;
+}
+
+/** 样式函数看到的 params：读到哪个 key 就返回对应的 `var()` */
+function createCssVarParams(): Record<string, string> {
+  return new Proxy({} as Record<string, string>, {
+    get: (_, key) => (typeof key === 'string' ? `var(${toCssVarParamName(key)})` : undefined)
+  });
+}
+
+function formatCssVarParam(value: unknown): string {
+  // `initial` 让变量失效，避免继承到外层同名变量
+  if (value === undefined || value === null) return 'initial';
+  return typeof value === 'number' ? `${value}px` : String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return isRecord(value) && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/** 深合并样式对象：嵌套选择器逐层合并，其它属性以 override 为准 */
+function mergeCssObject(base: CSSObject, override: CSSObject): CSSObject {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = merged[key];
+    merged[key] = isPlainObject(baseValue) && isPlainObject(value) ? mergeCssObject(baseValue as CSSObject, value as CSSObject) : value;
+  }
+  return merged as CSSObject;
+}
+
+/** 叠加 `FarmProvider components` 里的 slot 覆写（外层在前） */
+function applyComponentStyles<Styles extends Record<string, CSSObject>>(
+  styles: Styles,
+  layers: Array<Record<string, FarmSlotStyle | undefined> | undefined>,
+  theme: Theme
+): Styles {
+  const result: Record<string, CSSObject> = { ...styles };
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [slot, style] of Object.entries(layer)) {
+      if (!style || !(slot in result)) continue;
+      result[slot] = mergeCssObject(result[slot]!, typeof style === 'function' ? style(theme) : style);
+    }
+  }
+  return result as Styles;
+}
+
+export function createStyles<Params extends Record<string, CssVarParamValue>, Styles extends Record<string, CSSObject>>(
+  stylesFn: (theme: Theme, params: CssVarParams<Params>, utils: StyleUtils) => Styles,
+  options: CreateStylesOptions & { cssVarParams: true }
+): (params: Params) => StylesResult<Styles>;
+
+export function createStyles<Styles extends Record<string, CSSObject>>(
+  stylesFn: (theme: Theme, params: undefined, utils: StyleUtils) => Styles,
+  options?: CreateStylesOptions & { cssVarParams?: false }
+): () => StylesResult<Styles>;
+
+export function createStyles<Params, Styles extends Record<string, CSSObject>>(
+  stylesFn: (theme: Theme, params: Params, utils: StyleUtils) => Styles,
+  options?: CreateStylesOptions & { cssVarParams?: false }
+): (params: Params) => StylesResult<Styles>;
+
 export function createStyles<Params, Styles extends Record<string, CSSObject>>(
-  stylesFn: (theme: Theme, params: Params) => Styles
+  stylesFn: (theme: Theme, params: Params, utils: StyleUtils) => Styles,
+  options: CreateStylesOptions = {}
 ) {
-  return function useStyles(params?: Params): {
-    styles: { [K in keyof Styles]: string };
-    cx: typeof cx;
-    theme: Theme;
-  } {
-    const { theme: cssinjsTheme, token, hashId } = antdTheme.useToken();
+  const { cssVarParams = false, name } = options;
+
+  return function useStyles(params?: Params): StylesResult<Styles> {
+    const { theme: cssinjsTheme, token, hashId } = useStyleToken();
+    const scope = React.useContext(FarmScopeContext);
+    const componentStyles = scope?.componentStyles;
+    const componentToken = (name && scope?.antdComponents[name]) || EMPTY_COMPONENT_TOKEN;
 
-    const computed = React.useMemo(() => stylesFn(token, params as Params), [token, params]);
+    const { computed, keyframes } = React.useMemo(
+      () => {
+        const { utils, registered } = createStyleUtils(token, hashId, componentToken);
+        const styleParams = cssVarParams ? (createCssVarParams() as Params) : (params as Params);
+        const styles = stylesFn(token, styleParams, utils);
+        const layers = name && componentStyles ? componentStyles.map((layer) => layer[name]) : [];
+        return { computed: applyComponentStyles(styles, layers, token), keyframes: registered };
+      },
+      // cssVarParams：样式与参数无关，只随主题（与组件覆写）变化
+      cssVarParams
+        ? [token, hashId, componentToken, componentStyles]
+        : [token, hashId, componentToken, componentStyles, params]
+    );
 
     const classNames = React.useMemo(() => {
       const result: Record<string, string> = {};
@@ -110,41 +487,207 @@ export function createStyles<Params, Styles extends Record<string, CSSObject>>(
       return result as { [K in keyof Styles]: string };
     }, [computed]);
 
-    useStyleRegister(
-      {
-        theme: cssinjsTheme,
-        token,
-        hashId,
-        path: ['@farm-design-system/theme', 'createStyles'],
-        order: 1
-      },
+    // 每个 slot 用到了哪些参数变量
+    const slotVarNames = React.useMemo(() => {
+      const result: Record<string, string[]> = {};
+      for (const [key, value] of Object.entries(computed)) {
+        const names = cssVarParams ? [...stableStringify(value).matchAll(CSS_VAR_PARAM_PATTERN)].map((match) => match[1]!) : [];
+        result[key] = [...new Set(names)].map((name) => `${CSS_VAR_PARAM_PREFIX}${name}`);
+      }
+      return result;
+    }, [computed]);
+
+    const paramsKey = cssVarParams ? stableStringify(params ?? {}) : '';
+    const vars = React.useMemo(() => {
+      const values: Record<string, string> = {};
+      for (const [key, value] of Object.entries((params ?? {}) as Record<string, unknown>)) {
+        values[toCssVarParamName(key)] = formatCssVarParam(value);
+      }
+      const result: Record<string, Record<string, string>> = {};
+      for (const [slot, names] of Object.entries(slotVarNames)) {
+        result[slot] = Object.fromEntries(names.map((name) => [name, values[name] ?? formatCssVarParam(undefined)]));
+      }
+      return result as { [K in keyof Styles]: React.CSSProperties };
+      // params 常以字面量传入，按内容比较
+    }, [slotVarNames, paramsKey]);
+
+    // 每组 class 名各占一条缓存，避免不同组件的样式互相覆盖
+    const path = ['@farm-design-system/theme', 'createStyles', ...Object.values<string>(classNames)];
+    useOwnedStyleRegister(
+      { theme: cssinjsTheme, token, hashId, path, order: 1 },
       () => {
         const rules: Record<string, CSSObject> = {};
         for (const [key, style] of Object.entries(computed)) {
           rules[`.${classNames[key as keyof Styles]}`] = style;
         }
-        return rules;
-      }
+        return [rules, ...keyframes];
+      },
+      keyframes
     );
 
-    return { styles: classNames, cx, theme: token };
+    return { styles: classNames, vars, cx, theme: token, componentToken };
   };
 }
 
-function useDocumentThemeMode(scope: FarmThemeScope, mode: FarmThemeMode): void {
+/**
+ * 全局样式（reset、`body`/标签选择器等），返回一个渲染为空的组件，放在 `FarmProvider` 内：
+ *
+ * ```tsx
+ * const GlobalStyle = createGlobalStyle((theme) => ({
+ *   a: { color: theme.colorLink },
+ *   'h1, h2': { margin: 0 }
+ * }));
+ *
+ * <FarmProvider><GlobalStyle />...</FarmProvider>
+ * ```
+ *
+ * - 选择器不加 antd 的 hash；与 `createStyles` 共用 cssinjs 缓存，按主题 hash 区分（切换模式/品牌会重新生成）
+ * - 所在 `FarmProvider` 为 `scope="wrap"` 时，规则收窄到该容器之下（`&` 指容器本身）；`document` 范围时为真正的全局样式
+ */
+export function createGlobalStyle(stylesFn: (theme: Theme, props: undefined, utils: StyleUtils) => CSSObject): () => null;
+
+export function createGlobalStyle<Props extends object>(
+  stylesFn: (theme: Theme, props: Props, utils: StyleUtils) => CSSObject
+): (props: Props) => null;
+
+export function createGlobalStyle<Props extends object>(
+  stylesFn: (theme: Theme, props: Props, utils: StyleUtils) => CSSObject
+) {
+  return function GlobalStyle(props: Props): null {
+    const { theme: cssinjsTheme, token, hashId } = useStyleToken();
+    const styleScope = React.useContext(FarmScopeContext)?.styleScope ?? null;
+    const propsKey = stableStringify(props);
+
+    const { rules, keyframes } = React.useMemo(() => {
+      const { utils, registered } = createStyleUtils(token, '');
+      const style = stylesFn(token, props, utils);
+      return { rules: styleScope ? { [styleScope]: style } : style, keyframes: registered };
+      // props 常以字面量传入，按内容比较
+    }, [token, propsKey, styleScope]);
+
+    // 全局选择器不注入 hash；主题 hash 放进 path，不同主题各自一份
+    const path = ['@farm-design-system/theme', 'createGlobalStyle', hashId, hashString(stableStringify(rules))];
+    useOwnedStyleRegister(
+      {
+        theme: cssinjsTheme,
+        token,
+        path,
+        order: 0
+      },
+      () => [rules, ...keyframes],
+      keyframes
+    );
+
+    return null;
+  };
+}
+
+function useDocumentAttribute(enabled: boolean, name: string, value: string | undefined): void {
   React.useEffect(() => {
-    if (scope !== 'document') return;
+    if (!enabled || value === undefined) return;
     if (typeof document === 'undefined') return;
 
     const el = document.documentElement;
-    const prev = el.getAttribute('data-theme');
-    el.setAttribute('data-theme', mode);
+    const prev = el.getAttribute(name);
+    el.setAttribute(name, value);
 
     return () => {
-      if (prev === null) el.removeAttribute('data-theme');
-      else el.setAttribute('data-theme', prev);
+      if (prev === null) el.removeAttribute(name);
+      else el.setAttribute(name, prev);
     };
-  }, [scope, mode]);
+  }, [enabled, name, value]);
+}
+
+function useDocumentThemeMode(enabled: boolean, mode: FarmThemeMode, brand: string | undefined): void {
+  useDocumentAttribute(enabled, 'data-theme', mode);
+  useDocumentAttribute(enabled, 'data-brand', brand);
+}
+
+function noopSubscribe(): () => void {
+  return () => {};
+}
+
+/**
+ * 服务端渲染与 hydrate 阶段为 true，之后为 false。
+ * - hydrate 阶段只能使用与服务端一致的快照（light / 无持久化值），此时 `html[data-theme]` 交给首屏脚本（`FarmThemeScript`）
+ */
+function useIsHydrating(): boolean {
+  return React.useSyncExternalStore(noopSubscribe, () => false, () => true);
+}
+
+const PREFERS_DARK_QUERY = '(prefers-color-scheme: dark)';
+
+function subscribePrefersDark(listener: () => void): () => void {
+  if (typeof window === 'undefined' || !window.matchMedia) return () => {};
+  const mql = window.matchMedia(PREFERS_DARK_QUERY);
+  mql.addEventListener('change', listener);
+  return () => mql.removeEventListener('change', listener);
+}
+
+function getPrefersDark(): boolean {
+  if (typeof window === 'undefined' || !window.matchMedia) return false;
+  return window.matchMedia(PREFERS_DARK_QUERY).matches;
+}
+
+/** 系统是否偏好暗色（服务端渲染时视为 light） */
+function usePrefersDark(): boolean {
+  return React.useSyncExternalStore(subscribePrefersDark, getPrefersDark, () => false);
+}
+
+function useModeStorage(storage: FarmProviderProps['storage'], storageKey: string): FarmThemeModeStorage | undefined {
+  return React.useMemo(() => {
+    if (storage === 'localStorage') return createLocalStorageModeStorage(storageKey);
+    if (storage === 'cookie') return createCookieModeStorage({ key: storageKey });
+    return storage;
+  }, [storage, storageKey]);
+}
+
+export type FarmThemeScriptProps = ThemeModeScriptOptions & {
+  /** CSP nonce */
+  nonce?: string;
+};
+
+/**
+ * 首屏前设置 `html[data-theme]` 的内联脚本（SSR 防闪烁），放在 `<head>` 里：
+ *
+ * ```tsx
+ * <head>
+ *   <FarmThemeScript storage="localStorage" defaultMode="system" />
+ * </head>
+ * ```
+ *
+ * 参数需与 `FarmProvider` 的 `storage/storageKey/defaultMode` 保持一致。
+ */
+export function FarmThemeScript(props: FarmThemeScriptProps) {
+  const { nonce, ...options } = props;
+  return (
+    <script
+      nonce={nonce}
+      suppressHydrationWarning
+      dangerouslySetInnerHTML={{ __html: createThemeModeScript(options) }}
+    />
+  );
+}
+
+/**
+ * 嵌套 `FarmProvider` 的局部 CSS 变量：
+ * - 生效元素上的 `data-theme/data-brand` 会直接命中全局选择器，所以只需输出与全局值不同的变量
+ * - 当前品牌没有全局变量（例如嵌套时切换了品牌）时输出该模式的全部变量
+ */
+function createScopedTokensCss(
+  selector: string,
+  vars: Record<string, string>,
+  baseline: Record<string, string> | undefined
+): string {
+  const lines = Object.entries(vars)
+    .filter(([name, value]) => baseline?.[name] !== value)
+    .map(([name, value]) => `  ${name}: ${value};`);
+  return lines.length > 0 ? `${selector} {\n${lines.join('\n')}\n}` : '';
+}
+
+function useThemeBundle(registry: ThemeRegistry, brand: string | undefined) {
+  const getSnapshot = React.useCallback(() => registry.get(brand), [registry, brand]);
+  return React.useSyncExternalStore(registry.subscribe, getSnapshot, getSnapshot);
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -193,38 +736,295 @@ function mergeAntdTheme(
   return merged as ConfigProviderProps['theme'];
 }
 
+function mergeOverrides(...sources: Array<ThemeOverrides | undefined>): ThemeOverrides | undefined {
+  const defined = sources.filter((source): source is ThemeOverrides => !!source);
+  if (defined.length <= 1) return defined[0];
+
+  const result: ThemeOverrides = {};
+  for (const source of defined) {
+    for (const [mode, tokens] of Object.entries(source)) {
+      result[mode] = { ...result[mode], ...tokens };
+    }
+  }
+  return result;
+}
+
+/** 与 `cssVarName` 的 `--farm-` 前缀一致 */
+const CSS_VAR_PREFIX = 'farm';
+
+const algorithmMap: Record<ThemeAlgorithm, NonNullable<ThemeConfig['algorithm']>> = {
+  default: antdTheme.defaultAlgorithm,
+  dark: antdTheme.darkAlgorithm,
+  compact: antdTheme.compactAlgorithm
+};
+
+/** 某个模式交给 antd `ConfigProvider` 的主题：`antdTheme[mode]` + 对应的 algorithm，再合并传入的覆写 */
+function resolveModeAntdTheme(
+  bundle: ThemeBundle,
+  mode: FarmThemeMode,
+  overrides: ConfigProviderProps['theme']
+): ThemeConfig {
+  const modeTheme = bundle.antdTheme[mode];
+  if (!modeTheme) {
+    throw new Error(`@farm-design-system/theme: 当前主题不包含模式 "${mode}"（可用：${bundle.modes.join(', ')}）。`);
+  }
+  const algorithms = (bundle.algorithms[mode] ?? ['default']).map((name) => algorithmMap[name]);
+  const base: ThemeConfig = {
+    ...modeTheme,
+    algorithm: algorithms.length === 1 ? algorithms[0] : (algorithms as ThemeConfig['algorithm'])
+  };
+  return (overrides ? mergeAntdTheme(base, overrides) : base) as ThemeConfig;
+}
+
+/** 与 antd 序列化 `theme.cssVar` 的规则一致：这些 token 的数值不加 px，或者不输出成变量 */
+const UNITLESS_ANTD_TOKEN = /^(lineHeight|opacity|zIndex|fontWeightStrong)/;
+const SKIPPED_ANTD_TOKEN = /^(motionBase|motionUnit|screen)/;
+/** antd 组件根节点 className 的后缀（默认为组件名的 kebab-case） */
+const ANTD_COMPONENT_CLS: Record<string, string> = { Button: 'btn' };
+
+function collectVars(tokens: Record<string, unknown>, toName: (key: string) => string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const [key, value] of Object.entries(tokens)) {
+    if (SKIPPED_ANTD_TOKEN.test(key)) continue;
+    if (typeof value === 'number') vars[toName(key)] = UNITLESS_ANTD_TOKEN.test(key) ? String(value) : `${value}px`;
+    else if (typeof value === 'string') vars[toName(key)] = value;
+  }
+  return vars;
+}
+
+/**
+ * antd 在 cssVar 模式下会输出的变量，按选择器后缀分组（`''` 为全局，`.ant-btn` 等为组件根节点）：
+ * - 全局 token 用 `theme.getDesignToken()` 计算，包含 algorithm 派生的值
+ * - 组件 token 只包含主题里声明过的（与 antd 一致：与全局 token 同名的不加组件前缀）
+ */
+function collectAntdVars(themeConfig: ThemeConfig, prefixCls: string): Record<string, Record<string, string>> {
+  const designToken = antdTheme.getDesignToken(themeConfig) as unknown as Record<string, unknown>;
+  const result: Record<string, Record<string, string>> = {
+    '': collectVars(designToken, (key) => token2CSSVar(key, CSS_VAR_PREFIX))
+  };
+
+  for (const [component, tokens] of Object.entries(themeConfig.components ?? {})) {
+    if (!isRecord(tokens)) continue;
+    const componentCls = ANTD_COMPONENT_CLS[component] ?? component.replace(/\B[A-Z]/g, '-$&').toLowerCase();
+    result[`.${prefixCls}-${componentCls}`] = collectVars(tokens, (key) =>
+      token2CSSVar(key in designToken ? key : `${component}${key[0]!.toUpperCase()}${key.slice(1)}`, CSS_VAR_PREFIX)
+    );
+  }
+  return result;
+}
+
+/**
+ * cssVar 模式下各模式的 antd 变量：交给 antd 的主题固定为第一个模式（antd 自己在 `.farm` 上输出这一套），
+ * 其它模式只输出与之不同的值，选择器带上 `[data-theme]` 且比 antd 的更具体
+ */
+function createAntdModeVarsCss(
+  bundle: ThemeBundle,
+  overrides: ConfigProviderProps['theme'],
+  selectorOf: (mode: FarmThemeMode) => string,
+  prefixCls: string
+): string {
+  const [baseMode, ...otherModes] = bundle.modes;
+  if (!baseMode) return '';
+  const baseline = collectAntdVars(resolveModeAntdTheme(bundle, baseMode, overrides), prefixCls);
+
+  const blocks: string[] = [];
+  for (const mode of otherModes) {
+    const groups = collectAntdVars(resolveModeAntdTheme(bundle, mode, overrides), prefixCls);
+    for (const [suffix, vars] of Object.entries(groups)) {
+      blocks.push(createScopedTokensCss(`${selectorOf(mode)}${suffix}`, vars, baseline[suffix] ?? {}));
+    }
+  }
+  return blocks.filter(Boolean).join('\n');
+}
+
 export function FarmProvider(props: FarmProviderProps) {
+  const parent = React.useContext(FarmScopeContext);
+  const parentModeContext = React.useContext(FarmThemeModeContext);
+
   const {
-    mode = 'light',
-    scope = 'document',
+    mode: controlledMode,
+    defaultMode = 'light',
+    onModeChange,
+    storage: storageOption,
+    storageKey = DEFAULT_THEME_MODE_STORAGE_KEY,
+    scope = parent ? 'wrap' : 'document',
+    overrides,
+    registry = parent?.registry ?? themeRegistry,
     tokensCss,
+    cssVar = parent?.cssVar ?? false,
     antdTheme: antdThemeOverrides,
     antdConfig,
+    components,
     children
   } = props;
+  const brand = props.brand ?? parent?.brand;
 
-  useDocumentThemeMode(scope, mode);
+  // 内置品牌不设置 data-brand，保持与未启用多品牌时的 DOM/选择器一致
+  const scopedBrand = brand === undefined || brand === DEFAULT_BRAND ? undefined : brand;
+  const registryBundle = useThemeBundle(registry, brand);
+  // 嵌套且未切换品牌时继承外层主题（包括外层的 overrides）
+  const baseBundle = parent && parent.registry === registry && parent.brand === brand ? parent.bundle : registryBundle;
+  const [runtimeOverrides, setRuntimeOverrides] = React.useState<ThemeOverrides>();
+  const mergedOverrides = mergeOverrides(overrides, runtimeOverrides);
+  const overridesKey = mergedOverrides ? stableStringify(mergedOverrides) : '';
+  const bundle = React.useMemo(
+    () => (mergedOverrides ? extendTheme(baseBundle, { overrides: mergedOverrides }) : baseBundle),
+    // overrides 常以字面量传入，按内容比较
+    [baseBundle, overridesKey]
+  );
+  const storage = useModeStorage(storageOption, storageKey);
+
+  const [localMode, setLocalMode] = React.useState<FarmThemeModeSetting>();
+  const subscribePersisted = React.useCallback(
+    (listener: () => void) => {
+      if (!storage?.subscribe) return () => {};
+      return storage.subscribe(() => {
+        // 外部（例如其它标签页）修改后以持久化的值为准
+        setLocalMode(undefined);
+        listener();
+      });
+    },
+    [storage]
+  );
+  // 服务端/hydrate 阶段读不到持久化的值（保持与服务端输出一致），hydrate 完成后再切换
+  const persisted = React.useSyncExternalStore(subscribePersisted, () => storage?.get() ?? null, () => null);
+  // 持久化的值可能来自旧版本/其它品牌，不认识的模式直接忽略
+  const persistedMode = persisted === 'system' || (persisted && bundle.modes.includes(persisted)) ? persisted : undefined;
+
+  const ownModeSetting = controlledMode ?? localMode ?? persistedMode ?? defaultMode;
+  const prefersDark = usePrefersDark();
+  const ownMode: FarmThemeMode = ownModeSetting === 'system' ? (prefersDark ? 'dark' : 'light') : ownModeSetting;
+
+  const onModeChangeRef = React.useRef(onModeChange);
+  onModeChangeRef.current = onModeChange;
+
+  const setMode = React.useCallback(
+    (next: FarmThemeModeSetting) => {
+      if (controlledMode === undefined) setLocalMode(next);
+      storage?.set(next);
+      onModeChangeRef.current?.(next);
+    },
+    [controlledMode, storage]
+  );
+
+  const ownModeContextValue = React.useMemo<FarmThemeModeContextValue>(
+    () => ({ mode: ownModeSetting, resolvedMode: ownMode, modes: bundle.modes, setMode }),
+    [ownModeSetting, ownMode, bundle, setMode]
+  );
+
+  // 嵌套且没有声明自己的模式时跟随外层（`useFarmThemeMode().setMode` 也作用于外层）
+  const followsParentMode =
+    parentModeContext !== null &&
+    controlledMode === undefined &&
+    props.defaultMode === undefined &&
+    storageOption === undefined;
+  const modeContextValue = followsParentMode ? parentModeContext : ownModeContextValue;
+  const mode = modeContextValue.resolvedMode;
+
+  const hydrating = useIsHydrating();
+  useDocumentThemeMode(scope === 'document' && !hydrating, mode, scopedBrand);
+
+  // 全局变量每个文档只注入一次（最外层）；嵌套层只输出收窄到子树的差异变量
+  const rootGlobal = React.useMemo(
+    () => (tokensCss === undefined ? { registry, brand, bundle } : null),
+    [tokensCss, registry, brand, bundle]
+  );
+  const global = parent ? parent.global : rootGlobal;
+  const scopeId = React.useId();
+  const scopeSelector = scope === 'wrap' ? `[data-farm-scope="${scopeId}"][data-theme]` : ':root[data-theme]';
 
   const resolvedTokensCss = React.useMemo(() => {
     if (tokensCss !== undefined) return tokensCss;
-    return createTokensCss();
-  }, [tokensCss]);
+    if (!parent) return createTokensCss({ vars: bundle.cssVars, brand: scopedBrand });
 
-  const resolvedAntdTheme = React.useMemo<ConfigProviderProps['theme']>(() => {
-    const base: ConfigProviderProps['theme'] = {
-      ...farmAntdTheme[mode],
-      algorithm: mode === 'dark' ? antdTheme.darkAlgorithm : antdTheme.defaultAlgorithm
-    };
+    const baseline = global && global.registry === registry && global.brand === brand ? global.bundle : null;
+    return createScopedTokensCss(scopeSelector, bundle.cssVars[mode] ?? {}, baseline?.cssVars[mode]);
+  }, [tokensCss, parent, global, registry, brand, bundle, scopedBrand, scopeSelector, mode]);
+
+  const styleScope = scope === 'wrap' ? `[data-farm-scope="${scopeId}"]` : null;
+  const parentComponentStyles = parent?.componentStyles;
+  const componentStyles = React.useMemo(
+    () => (components ? [...(parentComponentStyles ?? []), components] : (parentComponentStyles ?? [])),
+    [parentComponentStyles, components]
+  );
+  // key 决定 antd 变量声明的选择器（`.farm`）：模式之间保持不变，组件样式才能共享
+  const cssVarKey = parent ? `${CSS_VAR_PREFIX}-${safeClassNamePart(scopeId)}` : CSS_VAR_PREFIX;
+
+  const modeAntdTheme = React.useMemo(
+    () => resolveModeAntdTheme(bundle, mode, antdThemeOverrides),
+    [bundle, mode, antdThemeOverrides]
+  );
+  // cssVar：交给 antd 的主题固定为第一个模式，切换模式时 antd 不会重新输出 `.farm` 上的变量声明
+  // （否则会盖过按模式输出的变量）；其它模式的变量见 `antdVarsCss`，由 `[data-theme]` 选择
+  const cssVarAntdTheme = React.useMemo<ConfigProviderProps['theme']>(() => {
+    if (!cssVar) return undefined;
+    const baseTheme = resolveModeAntdTheme(bundle, bundle.modes[0] ?? 'light', undefined);
+    return mergeAntdTheme({ ...baseTheme, cssVar: { prefix: CSS_VAR_PREFIX, key: cssVarKey } }, antdThemeOverrides);
+  }, [bundle, cssVar, cssVarKey, antdThemeOverrides]);
+  const resolvedAntdTheme = cssVarAntdTheme ?? modeAntdTheme;
+  const modeToken = React.useMemo(
+    () => (cssVar ? antdTheme.getDesignToken(modeAntdTheme) : null),
+    [cssVar, modeAntdTheme]
+  );
 
-    return antdThemeOverrides ? mergeAntdTheme(base, antdThemeOverrides) : base;
-  }, [mode, antdThemeOverrides]);
+  const antdPrefixCls = antdConfig?.prefixCls ?? 'ant';
+  const antdVarsCss = React.useMemo(() => {
+    if (!cssVar) return '';
+    const modeRoot = scope === 'wrap' ? `[data-farm-scope="${scopeId}"]` : ':root';
+    return createAntdModeVarsCss(
+      bundle,
+      antdThemeOverrides,
+      (m) => `${modeRoot}[data-theme="${m}"] .${cssVarKey}`,
+      antdPrefixCls
+    );
+  }, [cssVar, scope, scopeId, cssVarKey, bundle, antdThemeOverrides, antdPrefixCls]);
+  const styleCss = [resolvedTokensCss, antdVarsCss].filter(Boolean).join('\n');
+
+  // 与 antd 一致：嵌套的 ConfigProvider 在外层主题之上合并组件 token（按当前模式取值，cssVar 模式下也一样）
+  const parentAntdComponents = parent?.antdComponents;
+  const antdComponents = React.useMemo(() => {
+    const merged = mergeAntdTheme(
+      parentAntdComponents ? { components: parentAntdComponents } : undefined,
+      modeAntdTheme
+    );
+    return (merged?.components ?? {}) as FarmScopeContextValue['antdComponents'];
+  }, [parentAntdComponents, modeAntdTheme]);
 
-  const content = scope === 'wrap' ? <div data-theme={mode}>{children}</div> : <>{children}</>;
+  const scopeContextValue = React.useMemo<FarmScopeContextValue>(
+    () => ({
+      registry,
+      brand,
+      bundle,
+      mode,
+      global,
+      cssVar,
+      styleScope,
+      componentStyles,
+      antdComponents,
+      modeToken,
+      runtimeOverrides,
+      setRuntimeOverrides
+    }),
+    [registry, brand, bundle, mode, global, cssVar, styleScope, componentStyles, antdComponents, modeToken, runtimeOverrides]
+  );
+
+  const content =
+    scope === 'wrap' ? (
+      <div data-theme={mode} data-brand={scopedBrand} data-farm-scope={scopeId}>
+        {children}
+      </div>
+    ) : (
+      <>{children}</>
+    );
 
   return (
-    <ConfigProvider {...antdConfig} theme={resolvedAntdTheme}>
-      {resolvedTokensCss ? <style>{resolvedTokensCss}</style> : null}
-      {content}
-    </ConfigProvider>
+    <FarmScopeContext.Provider value={scopeContextValue}>
+      <FarmThemeModeContext.Provider value={modeContextValue}>
+        <ConfigProvider {...antdConfig} theme={resolvedAntdTheme}>
+          {styleCss ? <style>{styleCss}</style> : null}
+          {content}
+        </ConfigProvider>
+      </FarmThemeModeContext.Provider>
+    </FarmScopeContext.Provider>
   );
 }
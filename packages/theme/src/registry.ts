@@ -0,0 +1,93 @@
+import { createTheme, createTokensCssBlocks, type CreateThemeOptions, type ThemeBundle } from './tokens';
+
+/** 内置品牌名：对应 `createTheme()` 的默认产物，CSS 变量不做品牌收窄。 */
+export const DEFAULT_BRAND = 'default';
+
+export type ThemeRegistry = {
+  /**
+   * 注册（或重新注册）一个品牌：
+   * - `options` 与 `createTheme()` 一致（`tokenStudio`/`finexUi` + `overrides` + `antd`）
+   * - 返回生成好的 `ThemeBundle`
+   */
+  register: (brand: string, options?: CreateThemeOptions) => ThemeBundle;
+  /** 注销品牌（内置 `default` 不可注销） */
+  unregister: (brand: string) => void;
+  has: (brand: string) => boolean;
+  /** 获取品牌主题；未传入时返回内置品牌。未注册的品牌会直接抛错，避免悄悄回退到默认皮肤。 */
+  get: (brand?: string) => ThemeBundle;
+  /** 已注册的品牌名（含 `default`） */
+  brands: () => string[];
+  /**
+   * 生成所有品牌的 CSS 变量声明文本：
+   * - `default`：全局选择器（`:root` / `[data-theme]`）
+   * - 其它品牌：收窄到 `[data-brand="x"]`（见 `createTokensCss({ brand })`）
+   */
+  createTokensCss: (options?: { brands?: string[] }) => string;
+  /** 订阅注册表变更（供 `FarmProvider` 在运行时注册品牌后刷新） */
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function createThemeRegistry(initial: Record<string, CreateThemeOptions> = {}): ThemeRegistry {
+  const bundles = new Map<string, ThemeBundle>([[DEFAULT_BRAND, createTheme()]]);
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    for (const listener of listeners) listener();
+  };
+
+  const registry: ThemeRegistry = {
+    register(brand, options = {}) {
+      const bundle = createTheme(options);
+      bundles.set(brand, bundle);
+      notify();
+      return bundle;
+    },
+    unregister(brand) {
+      if (brand === DEFAULT_BRAND) {
+        throw new Error(`@farm-design-system/theme: 内置品牌 "${DEFAULT_BRAND}" 不可注销。`);
+      }
+      if (bundles.delete(brand)) notify();
+    },
+    has(brand) {
+      return bundles.has(brand);
+    },
+    get(brand = DEFAULT_BRAND) {
+      const bundle = bundles.get(brand);
+      if (!bundle) {
+        throw new Error(`@farm-design-system/theme: 未注册的品牌 "${brand}"（请先调用 registry.register）。`);
+      }
+      return bundle;
+    },
+    brands() {
+      return [...bundles.keys()];
+    },
+    createTokensCss(options = {}) {
+      const blocks = (options.brands ?? registry.brands()).flatMap((brand) =>
+        createTokensCssBlocks({
+          vars: registry.get(brand).cssVars,
+          brand: brand === DEFAULT_BRAND ? undefined : brand
+        })
+      );
+      return ['/* Auto-generated by @farm-design-system/theme. */', ...blocks, ''].join('\n\n');
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+
+  for (const [brand, options] of Object.entries(initial)) {
+    bundles.set(brand, createTheme(options));
+  }
+
+  return registry;
+}
+
+/**
+ * 全局共享的品牌注册表（`FarmProvider` 的 `brand` 默认从这里取）。
+ * - 应用启动时注册：`themeRegistry.register('acme', { tokenStudio: acmeExport })`
+ * - 需要隔离（例如测试/微前端）时，用 `createThemeRegistry()` 自建并通过 `FarmProvider registry` 传入
+ */
+export const themeRegistry: ThemeRegistry = createThemeRegistry();
@@ -0,0 +1,55 @@
+/**
+ * @farm-design-system/theme/server
+ *
+ * SSR 场景下收集 cssinjs 样式（antd 组件样式 + `createStyles` 注册的样式共用同一个 cache）：
+ *
+ * ```tsx
+ * const collector = createStyleCollector();
+ * const html = renderToString(
+ *   <collector.StyleRegistry>
+ *     <FarmProvider>
+ *       <App />
+ *     </FarmProvider>
+ *   </collector.StyleRegistry>
+ * );
+ * const styleTags = collector.extractStyleTags();
+ * ```
+ */
+import React from 'react';
+import { createCache, extractStyle, StyleProvider } from '@ant-design/cssinjs';
+
+export type ExtractStyleOptions = {
+  /**
+   * 只返回上次提取之后新增的样式（流式渲染时每个 chunk 调一次，例如 Next.js 的 `useServerInsertedHTML`）。
+   * 默认：false（返回全部样式）
+   */
+  once?: boolean;
+};
+
+export type StyleCollector = {
+  /** 包在 `FarmProvider` 外层，让渲染期间注册的样式写入同一个 cache */
+  StyleRegistry: (props: { children?: React.ReactNode }) => React.ReactElement;
+  /**
+   * `<style>` 标签字符串（带 cssinjs 的 hash 属性，客户端 hydrate 时会复用，不会重复插入）。
+   */
+  extractStyleTags: (options?: ExtractStyleOptions) => string;
+  /** 纯 CSS 文本（需要自己包 `<style>` 或写入文件时使用） */
+  extractStyleText: (options?: ExtractStyleOptions) => string;
+};
+
+export function createStyleCollector(): StyleCollector {
+  const cache = createCache();
+
+  function StyleRegistry(props: { children?: React.ReactNode }) {
+    return <StyleProvider cache={cache}>{props.children}</StyleProvider>;
+  }
+
+  return {
+    StyleRegistry,
+    extractStyleTags: (options = {}) => extractStyle(cache, { once: options.once }),
+    extractStyleText: (options = {}) => extractStyle(cache, { plain: true, once: options.once })
+  };
+}
+
+export { createThemeModeScript, type ThemeModeScriptOptions } from './mode-script';
+export { readModeCookie } from './mode-storage';
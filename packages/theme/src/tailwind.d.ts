@@ -1,4 +1,6 @@
-export const tailwindColors: Record<string, unknown>;
+import type { TailwindColorName } from './tokens';
+
+export const tailwindColors: Record<TailwindColorName, string>;
 export const tailwindPreset: Record<string, unknown>;
 declare const _default: typeof tailwindPreset;
 export default _default;
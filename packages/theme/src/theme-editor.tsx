@@ -0,0 +1,298 @@
+import React from 'react';
+
+import { FarmScopeContext } from './context';
+import { parseColor } from './contrast';
+import {
+  antdTokenMap,
+  cssVarName,
+  formatThemeOptions,
+  getTokenCategory,
+  type AntdTokenName,
+  type ThemeMode,
+  type ThemeOverrides
+} from './tokens';
+
+export type ThemeEditorProps = {
+  /** 覆写变化时回调（例如同步到 URL/本地存储）；清空所有覆写时为 undefined */
+  onChange?: (overrides: ThemeOverrides | undefined) => void;
+  /** 导出代码片段的默认格式（默认：ts） */
+  defaultExportFormat?: 'ts' | 'json';
+  className?: string;
+  style?: React.CSSProperties;
+};
+
+/**
+ * antd token 名 -> 编辑器分组：
+ * - 颜色按前两个单词分组：`colorPrimaryHover` -> `colorPrimary`、`colorBgContainer` -> `colorBg`
+ * - 尺寸/字体/阴影按 `getTokenCategory` 分组：`paddingLG` -> `spacing`
+ * - 其它取第一个单词：`blue6` -> `blue`、`controlItemBgHover` -> `control`
+ */
+function getTokenGroup(token: AntdTokenName): string {
+  const category = getTokenCategory(token);
+  if (category !== 'color') return category;
+
+  const words = token.match(/^[a-z]+|[A-Z][a-z]*/g) ?? [token];
+  return words[0] === 'color' ? words.slice(0, 2).join('') : words[0]!;
+}
+
+function groupTokens(tokens: AntdTokenName[]): Array<[group: string, tokens: AntdTokenName[]]> {
+  const groups = new Map<string, AntdTokenName[]>();
+  for (const token of tokens) {
+    const group = getTokenGroup(token);
+    groups.set(group, [...(groups.get(group) ?? []), token]);
+  }
+  return [...groups.entries()];
+}
+
+function setOverride(
+  overrides: ThemeOverrides | undefined,
+  mode: ThemeMode,
+  token: AntdTokenName,
+  value: string
+): ThemeOverrides | undefined {
+  const modeOverrides: Record<string, string | undefined> = { ...overrides?.[mode] };
+  // 清空输入即撤销该 token 的覆写
+  if (value.trim() === '') delete modeOverrides[token];
+  else modeOverrides[token] = value;
+
+  const next: ThemeOverrides = { ...overrides, [mode]: modeOverrides };
+  if (Object.keys(modeOverrides).length === 0) delete next[mode];
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+const DIMENSION_VALUE = /^-?\d*\.?\d+(px)?$/;
+
+/** 输入是否已是完整的 token 值：颜色需能被 `parseColor` 解析，尺寸/字重/行高需是数值；字体与阴影不校验 */
+function isCompleteTokenValue(token: AntdTokenName, value: string): boolean {
+  const category = getTokenCategory(token);
+  if (category === 'color') return parseColor(value) !== null;
+  if (category === 'fontFamily' || category === 'boxShadow') return value.trim() !== '';
+  return DIMENSION_VALUE.test(value.trim());
+}
+
+const styles = {
+  root: {
+    color: 'var(--farm-color-text)',
+    background: 'var(--farm-color-bg-container)',
+    border: '1px solid var(--farm-color-border)',
+    borderRadius: 6,
+    padding: 12,
+    fontSize: 12
+  },
+  toolbar: { display: 'flex', gap: 8, alignItems: 'center', marginBottom: 12 },
+  table: { width: '100%', borderCollapse: 'collapse' },
+  cell: { padding: '2px 8px', borderTop: '1px solid var(--farm-color-border)', verticalAlign: 'middle' },
+  tokenName: { fontFamily: 'monospace' },
+  varName: { display: 'block', fontFamily: 'monospace', color: 'var(--farm-color-text-secondary)' },
+  value: { display: 'flex', gap: 8, alignItems: 'center' },
+  swatch: {
+    flex: 'none',
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+    border: '1px solid var(--farm-color-border)'
+  },
+  input: { flex: 1, minWidth: 0, fontFamily: 'monospace' },
+  overridden: { outline: '2px solid var(--farm-color-primary)' },
+  invalid: { outline: '2px solid var(--farm-color-error)' },
+  copyFailed: { color: 'var(--farm-color-error)' },
+  snippet: {
+    maxHeight: 240,
+    overflow: 'auto',
+    margin: 0,
+    padding: 8,
+    background: 'var(--farm-color-fill-secondary)',
+    borderRadius: 4
+  }
+} satisfies Record<string, React.CSSProperties>;
+
+type TokenInputProps = {
+  token: AntdTokenName;
+  mode: ThemeMode;
+  value: string;
+  overridden: boolean;
+  /** 提交新值；空字符串表示撤销覆写 */
+  onCommit: (value: string) => void;
+};
+
+/**
+ * 单个 token 的输入框：输入过程中的半截值（例如 `#5`）只留在本地草稿里，
+ * 能解析成完整值时才写入覆写；失焦时空值撤销覆写、无效值丢弃草稿。
+ */
+function TokenInput(props: TokenInputProps) {
+  const { token, mode, value, overridden, onCommit } = props;
+  const [draft, setDraft] = React.useState<string | null>(null);
+  const invalid = draft !== null && draft.trim() !== '' && !isCompleteTokenValue(token, draft);
+
+  const handleChange = (next: string) => {
+    if (!isCompleteTokenValue(token, next)) {
+      setDraft(next);
+      return;
+    }
+    // 完整值直接写入覆写，输入框回到显示覆写后的值
+    setDraft(null);
+    if (next !== value) onCommit(next);
+  };
+
+  const handleBlur = () => {
+    if (draft !== null && draft.trim() === '') onCommit('');
+    setDraft(null);
+  };
+
+  let style: React.CSSProperties = styles.input;
+  if (invalid) style = { ...styles.input, ...styles.invalid };
+  else if (overridden) style = { ...styles.input, ...styles.overridden };
+
+  return (
+    <input
+      style={style}
+      aria-label={`${token} (${mode})`}
+      aria-invalid={invalid || undefined}
+      value={draft ?? value}
+      onChange={(event) => handleChange(event.target.value)}
+      onBlur={handleBlur}
+    />
+  );
+}
+
+/**
+ * 运行时主题编辑器（和设计同学对 token 时用）：
+ * - 按前缀分组列出 `antdTokenMap` 里的所有 token，每个模式一列（带色块）
+ * - 修改会写入最近的 `FarmProvider` 的运行时覆写：输入能解析成完整值（颜色支持 hex/rgb/rgba）时 antd 主题与 `--farm-*` 变量即时生效
+ * - 底部导出 `CreateThemeOptions`（TS/JSON），粘贴到项目里的 `createTheme()` 即可固化；复制失败（无剪贴板权限等）时提示手动复制
+ *
+ * ```tsx
+ * <FarmProvider>
+ *   <App />
+ *   {import.meta.env.DEV ? <ThemeEditor /> : null}
+ * </FarmProvider>
+ * ```
+ */
+export function ThemeEditor(props: ThemeEditorProps) {
+  const { onChange, defaultExportFormat = 'ts', className, style } = props;
+  const scope = React.useContext(FarmScopeContext);
+  if (!scope) {
+    throw new Error('@farm-design-system/theme: ThemeEditor 必须在 FarmProvider 内使用。');
+  }
+  const { bundle, runtimeOverrides, setRuntimeOverrides } = scope;
+
+  const [query, setQuery] = React.useState('');
+  const [exportFormat, setExportFormat] = React.useState(defaultExportFormat);
+
+  const groups = React.useMemo(() => groupTokens(Object.keys(antdTokenMap) as AntdTokenName[]), []);
+  const keyword = query.trim().toLowerCase();
+  const visibleGroups = keyword
+    ? groups
+        .map(([group, tokens]) => [group, tokens.filter((token) => token.toLowerCase().includes(keyword))] as const)
+        .filter(([, tokens]) => tokens.length > 0)
+    : groups;
+
+  const update = (next: ThemeOverrides | undefined) => {
+    setRuntimeOverrides(next);
+    onChange?.(next);
+  };
+
+  const snippet = formatThemeOptions({ overrides: runtimeOverrides ?? {} }, exportFormat);
+
+  // 复制结果只对复制时的片段有效，片段变化后不再显示
+  const [copyResult, setCopyResult] = React.useState<{ snippet: string; ok: boolean } | null>(null);
+  const copyStatus = copyResult?.snippet === snippet ? copyResult.ok : undefined;
+
+  const handleCopy = () => {
+    // 非安全上下文（http）或旧浏览器没有 Clipboard API
+    const clipboard = typeof navigator === 'undefined' ? undefined : navigator.clipboard;
+    if (!clipboard) {
+      setCopyResult({ snippet, ok: false });
+      return;
+    }
+    clipboard.writeText(snippet).then(
+      () => setCopyResult({ snippet, ok: true }),
+      () => setCopyResult({ snippet, ok: false })
+    );
+  };
+
+  return (
+    <div className={className} style={{ ...styles.root, ...style }} data-farm-theme-editor="">
+      <div style={styles.toolbar}>
+        <input
+          type="search"
+          placeholder="搜索 token"
+          aria-label="搜索 token"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+        />
+        <button type="button" disabled={!runtimeOverrides} onClick={() => update(undefined)}>
+          重置
+        </button>
+      </div>
+
+      {visibleGroups.map(([group, tokens]) => (
+        <details key={group} open={!!keyword}>
+          <summary>
+            {group}（{tokens.length}）
+          </summary>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.cell}>token</th>
+                {bundle.modes.map((mode) => (
+                  <th key={mode} style={styles.cell}>
+                    {mode}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {tokens.map((token) => (
+                <tr key={token}>
+                  <td style={styles.cell}>
+                    <span style={styles.tokenName}>{token}</span>
+                    <span style={styles.varName}>{cssVarName(token)}</span>
+                  </td>
+                  {bundle.modes.map((mode) => {
+                    const value = bundle.tokens[mode]?.[token] ?? '';
+                    const overridden = runtimeOverrides?.[mode]?.[token] !== undefined;
+                    return (
+                      <td key={mode} style={styles.cell}>
+                        <span style={styles.value}>
+                          {getTokenCategory(token) === 'color' ? (
+                            <span style={{ ...styles.swatch, background: value }} aria-hidden="true" />
+                          ) : null}
+                          <TokenInput
+                            token={token}
+                            mode={mode}
+                            value={value}
+                            overridden={overridden}
+                            onCommit={(next) => update(setOverride(runtimeOverrides, mode, token, next))}
+                          />
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      ))}
+
+      <div style={{ ...styles.toolbar, marginTop: 12 }}>
+        <select
+          aria-label="导出格式"
+          value={exportFormat}
+          onChange={(event) => setExportFormat(event.target.value as 'ts' | 'json')}
+        >
+          <option value="ts">TS</option>
+          <option value="json">JSON</option>
+        </select>
+        <button type="button" onClick={handleCopy}>
+          复制
+        </button>
+        <span role="status" style={copyStatus === false ? styles.copyFailed : undefined}>
+          {copyStatus === undefined ? null : copyStatus ? '已复制' : '复制失败，请手动选中下方代码复制'}
+        </span>
+      </div>
+      <pre style={styles.snippet}>{snippet}</pre>
+    </div>
+  );
+}
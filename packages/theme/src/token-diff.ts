@@ -0,0 +1,216 @@
+import { antdComponentsMap, antdTokenMap, type FinexUi, type ThemeMode } from './tokens';
+
+/**
+ * 两份 finex 快照（`FinexUi`，即 `src/finex-ui.json` 的结构）之间的差异。
+ *
+ * 约定：
+ * - 重命名：删除的 key 与新增的 key 在所有共同模式下的值完全相同，且一一对应（有多个候选时按“删除 + 新增”处理）
+ * - `affects` 按传入的映射表（默认：当前的 `antdTokenMap/antdComponentsMap`）反查受影响的 antd token
+ */
+
+export type FinexKeyAffects = {
+  /** 受影响的 antd 全局 token（例如 `colorPrimary`） */
+  tokens: string[];
+  /** 受影响的 antd 组件 token（例如 `Button.colorPrimary`） */
+  components: string[];
+};
+
+export type FinexValueChange = {
+  mode: ThemeMode;
+  before: string;
+  after: string;
+};
+
+export type FinexUiDiff = {
+  modes: { added: ThemeMode[]; removed: ThemeMode[] };
+  added: Array<{ key: string; values: Partial<Record<ThemeMode, string>> }>;
+  removed: Array<{ key: string; values: Partial<Record<ThemeMode, string>>; affects: FinexKeyAffects }>;
+  renamed: Array<{ from: string; to: string; affects: FinexKeyAffects }>;
+  changed: Array<{ key: string; changes: FinexValueChange[]; affects: FinexKeyAffects }>;
+  /** 汇总：受影响的 antd 全局 token 与组件名（去重、排序） */
+  affected: { tokens: string[]; components: string[] };
+};
+
+export type DiffFinexUiOptions = {
+  antdTokenMap?: Record<string, string>;
+  antdComponentsMap?: Record<string, Record<string, string>>;
+};
+
+function collectKeys(finex: FinexUi): string[] {
+  return [...new Set(Object.values(finex).flatMap((modeTokens) => Object.keys(modeTokens)))].sort();
+}
+
+function pickValues(finex: FinexUi, modes: ThemeMode[], key: string): Partial<Record<ThemeMode, string>> {
+  const values: Partial<Record<ThemeMode, string>> = {};
+  for (const mode of modes) {
+    const value = finex[mode]?.[key];
+    if (value !== undefined) values[mode] = value;
+  }
+  return values;
+}
+
+function createAffectsLookup(options: DiffFinexUiOptions): (key: string) => FinexKeyAffects {
+  const tokenMap: Record<string, string> = options.antdTokenMap ?? antdTokenMap;
+  const componentsMap: Record<string, Record<string, string>> = options.antdComponentsMap ?? antdComponentsMap;
+
+  return (key) => ({
+    tokens: Object.keys(tokenMap).filter((token) => tokenMap[token] === key),
+    components: Object.entries(componentsMap).flatMap(([component, tokens]) =>
+      Object.keys(tokens)
+        .filter((token) => tokens[token] === key)
+        .map((token) => `${component}.${token}`)
+    )
+  });
+}
+
+/**
+ * 对比两份 finex 快照：新增/删除/重命名的 key、每个模式下改了值的 key，以及受影响的 antd token。
+ *
+ * ```ts
+ * const diff = diffFinexUi(JSON.parse(before), finexUi);
+ * console.log(formatFinexUiDiff(diff, 'markdown'));
+ * ```
+ */
+export function diffFinexUi(before: FinexUi, after: FinexUi, options: DiffFinexUiOptions = {}): FinexUiDiff {
+  const affectsOf = createAffectsLookup(options);
+  const beforeModes = Object.keys(before);
+  const afterModes = Object.keys(after);
+  const sharedModes = beforeModes.filter((mode) => afterModes.includes(mode));
+
+  const beforeKeys = collectKeys(before);
+  const afterKeys = collectKeys(after);
+  const beforeSet = new Set(beforeKeys);
+  const afterSet = new Set(afterKeys);
+
+  let removedKeys = beforeKeys.filter((key) => !afterSet.has(key));
+  let addedKeys = afterKeys.filter((key) => !beforeSet.has(key));
+
+  // 值签名相同且一一对应的“删除 + 新增”视为重命名
+  const signature = (finex: FinexUi, key: string) => JSON.stringify(sharedModes.map((mode) => finex[mode]?.[key] ?? null));
+  const countBy = (finex: FinexUi, keys: string[]) => {
+    const counts = new Map<string, string[]>();
+    for (const key of keys) {
+      const sig = signature(finex, key);
+      counts.set(sig, [...(counts.get(sig) ?? []), key]);
+    }
+    return counts;
+  };
+  const removedBySignature = countBy(before, removedKeys);
+  const addedBySignature = countBy(after, addedKeys);
+
+  const renamed: FinexUiDiff['renamed'] = [];
+  for (const [sig, fromKeys] of removedBySignature) {
+    const toKeys = addedBySignature.get(sig);
+    if (fromKeys.length === 1 && toKeys?.length === 1) {
+      renamed.push({ from: fromKeys[0]!, to: toKeys[0]!, affects: affectsOf(fromKeys[0]!) });
+    }
+  }
+  const renamedFrom = new Set(renamed.map((item) => item.from));
+  const renamedTo = new Set(renamed.map((item) => item.to));
+  removedKeys = removedKeys.filter((key) => !renamedFrom.has(key));
+  addedKeys = addedKeys.filter((key) => !renamedTo.has(key));
+
+  const changed: FinexUiDiff['changed'] = [];
+  for (const key of beforeKeys.filter((item) => afterSet.has(item))) {
+    const changes: FinexValueChange[] = [];
+    for (const mode of sharedModes) {
+      const beforeValue = before[mode]?.[key];
+      const afterValue = after[mode]?.[key];
+      if (beforeValue !== undefined && afterValue !== undefined && beforeValue !== afterValue) {
+        changes.push({ mode, before: beforeValue, after: afterValue });
+      }
+    }
+    if (changes.length > 0) changed.push({ key, changes, affects: affectsOf(key) });
+  }
+
+  const removed = removedKeys.map((key) => ({ key, values: pickValues(before, beforeModes, key), affects: affectsOf(key) }));
+  const added = addedKeys.map((key) => ({ key, values: pickValues(after, afterModes, key) }));
+
+  const affectedTokens = new Set<string>();
+  const affectedComponents = new Set<string>();
+  for (const { affects } of [...removed, ...renamed, ...changed]) {
+    for (const token of affects.tokens) affectedTokens.add(token);
+    for (const ref of affects.components) affectedComponents.add(ref.split('.')[0]!);
+  }
+
+  return {
+    modes: {
+      added: afterModes.filter((mode) => !beforeModes.includes(mode)),
+      removed: beforeModes.filter((mode) => !afterModes.includes(mode))
+    },
+    added,
+    removed,
+    renamed,
+    changed,
+    affected: { tokens: [...affectedTokens].sort(), components: [...affectedComponents].sort() }
+  };
+}
+
+export function hasFinexUiChanges(diff: FinexUiDiff): boolean {
+  const { modes, added, removed, renamed, changed } = diff;
+  return [modes.added, modes.removed, added, removed, renamed, changed].some((list) => list.length > 0);
+}
+
+function code(value: string): string {
+  return `\`${value.replaceAll('|', '\\|')}\``;
+}
+
+function formatAffects(affects: FinexKeyAffects): string {
+  const refs = [...affects.tokens, ...affects.components];
+  return refs.length > 0 ? refs.map(code).join(', ') : '-';
+}
+
+function formatMarkdown(diff: FinexUiDiff): string {
+  if (!hasFinexUiChanges(diff)) return '## Token 变更\n\n无变更。\n';
+
+  const lines: string[] = ['## Token 变更', ''];
+  lines.push(
+    `- 新增 ${diff.added.length} / 删除 ${diff.removed.length} / 重命名 ${diff.renamed.length} / 改值 ${diff.changed.length}`
+  );
+  if (diff.affected.tokens.length > 0) lines.push(`- 受影响的 antd token：${diff.affected.tokens.map(code).join(', ')}`);
+  if (diff.affected.components.length > 0) lines.push(`- 受影响的组件：${diff.affected.components.join(', ')}`);
+
+  if (diff.modes.added.length > 0 || diff.modes.removed.length > 0) {
+    lines.push('', '### 模式', '');
+    for (const mode of diff.modes.added) lines.push(`- 新增 ${code(mode)}`);
+    for (const mode of diff.modes.removed) lines.push(`- 删除 ${code(mode)}`);
+  }
+
+  if (diff.changed.length > 0) {
+    lines.push('', '### 改值', '', '| finex key | 模式 | 之前 | 之后 | 影响 |', '| --- | --- | --- | --- | --- |');
+    for (const { key, changes, affects } of diff.changed) {
+      for (const change of changes) {
+        lines.push(`| ${code(key)} | ${change.mode} | ${code(change.before)} | ${code(change.after)} | ${formatAffects(affects)} |`);
+      }
+    }
+  }
+
+  if (diff.renamed.length > 0) {
+    lines.push('', '### 重命名', '', '| 之前 | 之后 | 影响 |', '| --- | --- | --- |');
+    for (const { from, to, affects } of diff.renamed) lines.push(`| ${code(from)} | ${code(to)} | ${formatAffects(affects)} |`);
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push('', '### 删除', '', '| finex key | 影响 |', '| --- | --- |');
+    for (const { key, affects } of diff.removed) lines.push(`| ${code(key)} | ${formatAffects(affects)} |`);
+  }
+
+  if (diff.added.length > 0) {
+    lines.push('', '### 新增', '', '| finex key | 值 |', '| --- | --- |');
+    for (const { key, values } of diff.added) {
+      const formatted = Object.entries(values).map(([mode, value]) => `${mode}: ${code(value!)}`);
+      lines.push(`| ${code(key)} | ${formatted.join('<br>')} |`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 输出差异报告：
+ * - `markdown`：可直接贴到 release notes / PR 描述
+ * - `json`：`FinexUiDiff` 本身（给其它工具消费）
+ */
+export function formatFinexUiDiff(diff: FinexUiDiff, format: 'markdown' | 'json' = 'markdown'): string {
+  return format === 'json' ? `${JSON.stringify(diff, null, 2)}\n` : formatMarkdown(diff);
+}
@@ -1,29 +1,118 @@
 import antdTokenMapJson from './adapters/antd-token-map.json';
 import antdComponentsMapJson from './adapters/antd-components-map.json';
+import type { AntdComponentTokenNames, AntdTokenCssVars, AntdTokenName, FinexKey } from './adapters/token-names';
 import finexUiJson from './finex-ui.json';
 
-export type ThemeMode = 'light' | 'dark';
+export type { AntdComponentTokenNames, AntdTokenCssVars, AntdTokenName, FinexKey };
+
+/**
+ * 主题模式名：
+ * - `light/dark` 是内置且必需的两套
+ * - 其余模式来自 Token Studio 导出里的其它主题分组（例如 `xxx/HighContrast` -> `high-contrast`）
+ */
+export type ThemeMode = 'light' | 'dark' | (string & {});
 
 type JsonRecord = Record<string, unknown>;
 
 type TokenLeaf = {
-  value: string;
+  value: unknown;
   type?: string;
 };
 
 /**
  * 统一后的 finex token 结构：
- * - `light/dark` 两套扁平 token（key 为 finex 原始命名，例如 `Brand-Color-Brand-2`）
- * - value 为最终可消费的颜色值（已把 `{Grey.18}` 等引用解析完成）
+ * - 每个主题模式一套扁平 token（至少包含 `light/dark`；key 为 finex 原始命名，例如 `Brand-Color-Brand-2`）
+ * - value 为最终可消费的 CSS 值（已把 `{Grey.18}` 等引用解析完成）
+ *   - 颜色：`#5856d7` / `rgba(...)`
+ *   - 尺寸：`8px`；数值/字重：`1.5` / `600`；字体：`Inter, sans-serif`；阴影：`0px 6px 16px 0px #00000014`
+ *   - typography 复合 token 会展开为 `Typography-Title-fontSize` 等子 key
  */
 export type FinexUi = Record<ThemeMode, Record<string, string>>;
 
+const DIMENSION_TYPES = new Set([
+  'dimension',
+  'spacing',
+  'sizing',
+  'borderRadius',
+  'borderWidth',
+  'fontSizes',
+  'letterSpacing',
+  'paragraphSpacing'
+]);
+const NUMBER_TYPES = new Set(['number', 'lineHeights', 'opacity']);
+
+const TYPOGRAPHY_PROPERTY_TYPES: Record<string, string> = {
+  fontFamily: 'fontFamilies',
+  fontWeight: 'fontWeights',
+  fontSize: 'fontSizes',
+  lineHeight: 'lineHeights',
+  letterSpacing: 'letterSpacing',
+  paragraphSpacing: 'paragraphSpacing'
+};
+
+const FONT_WEIGHT_NAMES: Record<string, string> = {
+  thin: '100',
+  hairline: '100',
+  extralight: '200',
+  ultralight: '200',
+  light: '300',
+  regular: '400',
+  normal: '400',
+  medium: '500',
+  semibold: '600',
+  demibold: '600',
+  bold: '700',
+  extrabold: '800',
+  ultrabold: '800',
+  black: '900',
+  heavy: '900'
+};
+
 function isRecord(value: unknown): value is JsonRecord {
   return !!value && typeof value === 'object' && !Array.isArray(value);
 }
 
-function isTokenLeaf(node: unknown): node is TokenLeaf {
-  return isRecord(node) && typeof node.value === 'string';
+/**
+ * 读取叶子 token：
+ * - Token Studio：`{ value, type }`；复合值（typography/boxShadow）必须带 type，否则无法与普通分组区分
+ * - W3C DTCG：`{ $value, $type }`，`$type` 缺省时继承最近的父分组
+ */
+function readTokenLeaf(node: unknown, inheritedType?: string): TokenLeaf | null {
+  if (!isRecord(node)) return null;
+  if ('$value' in node) {
+    return { value: node.$value, type: typeof node.$type === 'string' ? node.$type : inheritedType };
+  }
+  if (!('value' in node)) return null;
+  const { value, type } = node;
+  if (typeof value === 'string' || typeof value === 'number') {
+    return { value, type: typeof type === 'string' ? type : undefined };
+  }
+  return typeof type === 'string' && (isRecord(value) || Array.isArray(value)) ? { value, type } : null;
+}
+
+function groupType(tree: JsonRecord, inheritedType?: string): string | undefined {
+  return typeof tree.$type === 'string' ? tree.$type : inheritedType;
+}
+
+/**
+ * DTCG 的对象值 -> CSS 字符串：
+ * - dimension：`{ value: 8, unit: 'px' }` -> `8px`
+ * - color：`{ colorSpace: 'srgb', components: [r, g, b], alpha?, hex? }` -> `#rrggbb` / `rgba(...)`
+ * 其它对象返回 null。
+ */
+function formatDtcgValue(value: JsonRecord): string | null {
+  if ((typeof value.value === 'number' || typeof value.value === 'string') && typeof value.unit === 'string') {
+    return `${value.value}${value.unit}`;
+  }
+  if (typeof value.colorSpace !== 'string') return null;
+
+  const alpha = typeof value.alpha === 'number' ? value.alpha : 1;
+  if (typeof value.hex === 'string' && alpha === 1) return value.hex;
+  if (value.colorSpace !== 'srgb' || !Array.isArray(value.components)) {
+    return typeof value.hex === 'string' ? value.hex : null;
+  }
+  const [r, g, b] = value.components.map((component) => Math.round(Number(component) * 255));
+  return alpha === 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
 }
 
 function normalizeRef(value: string): string | null {
@@ -38,9 +127,17 @@ function collectTokenValues(
 ): Record<string, string> {
   if (!isRecord(tree)) return out;
   for (const [key, value] of Object.entries(tree)) {
+    // `$type/$description/$extensions` 等 DTCG 保留字段不是分组
+    if (key.startsWith('$')) continue;
     const nextParts = [...prefixParts, key];
-    if (isTokenLeaf(value)) {
-      out[nextParts.join('.')] = value.value;
+    const leaf = readTokenLeaf(value);
+    if (leaf) {
+      if (typeof leaf.value === 'string' || typeof leaf.value === 'number') {
+        out[nextParts.join('.')] = String(leaf.value);
+      } else if (isRecord(leaf.value)) {
+        const formatted = formatDtcgValue(leaf.value);
+        if (formatted !== null) out[nextParts.join('.')] = formatted;
+      }
       continue;
     }
     if (isRecord(value)) {
@@ -72,58 +169,149 @@ function toFinexKey(pathParts: string[]): string {
   return [...groups, leaf].join('-');
 }
 
+function isPlainNumber(value: string): boolean {
+  return /^-?\d*\.?\d+$/.test(value.trim());
+}
+
+/** 按 Token Studio 类型归一化为 CSS 值；不支持的类型返回 null */
+function normalizeTokenValue(type: string, value: string): string | null {
+  const trimmed = value.trim();
+  if (type === 'color') return trimmed;
+  if (DIMENSION_TYPES.has(type)) return isPlainNumber(trimmed) ? `${trimmed}px` : trimmed;
+  if (NUMBER_TYPES.has(type)) {
+    if (type === 'lineHeights' && trimmed.endsWith('%')) return String(Number.parseFloat(trimmed) / 100);
+    return trimmed;
+  }
+  if (type === 'fontFamilies' || type === 'fontFamily') return trimmed;
+  if (type === 'fontWeights' || type === 'fontWeight') {
+    if (isPlainNumber(trimmed)) return trimmed;
+    return FONT_WEIGHT_NAMES[trimmed.replaceAll(/[\s_-]+/g, '').toLowerCase()] ?? trimmed;
+  }
+  return null;
+}
+
+function resolveLeafPart(value: unknown, lookup: Record<string, string>): string {
+  if (Array.isArray(value)) return value.map((item) => resolveLeafPart(item, lookup)).join(', ');
+  if (isRecord(value)) return formatDtcgValue(value) ?? '';
+  return resolveTokenValue(String(value ?? ''), lookup);
+}
+
+/** Token Studio `boxShadow`（x/y/type）与 DTCG `shadow`（offsetX/offsetY/inset）两种写法 */
+function formatBoxShadow(value: JsonRecord | JsonRecord[], lookup: Record<string, string>): string {
+  const layers = Array.isArray(value) ? value : [value];
+  return layers
+    .map((layer) => {
+      const px = (key: string) => normalizeTokenValue('dimension', resolveLeafPart(layer[key] ?? 0, lookup))!;
+      const color = resolveLeafPart(layer.color ?? 'transparent', lookup);
+      const inset = layer.type === 'innerShadow' || layer.inset === true ? 'inset ' : '';
+      const [x, y] = 'offsetX' in layer ? [px('offsetX'), px('offsetY')] : [px('x'), px('y')];
+      return `${inset}${x} ${y} ${px('blur')} ${px('spread')} ${color}`;
+    })
+    .join(', ');
+}
+
+function collectLeaf(finexKey: string, leaf: TokenLeaf, baseLookup: Record<string, string>, out: Record<string, string>): void {
+  const type = leaf.type ?? '';
+  const { value } = leaf;
+
+  if (type === 'typography') {
+    if (!isRecord(value)) return;
+    for (const [property, propertyType] of Object.entries(TYPOGRAPHY_PROPERTY_TYPES)) {
+      if (value[property] === undefined) continue;
+      const normalized = normalizeTokenValue(propertyType, resolveLeafPart(value[property], baseLookup));
+      if (normalized !== null) out[`${finexKey}-${property}`] = normalized;
+    }
+    return;
+  }
+
+  if (type === 'boxShadow' || type === 'shadow') {
+    if (typeof value === 'string') out[finexKey] = resolveTokenValue(value, baseLookup);
+    else if (isRecord(value) || Array.isArray(value)) out[finexKey] = formatBoxShadow(value as JsonRecord | JsonRecord[], baseLookup);
+    return;
+  }
+
+  if (isRecord(value) && formatDtcgValue(value) === null) return;
+  const normalized = normalizeTokenValue(type, resolveLeafPart(value, baseLookup));
+  if (normalized !== null) out[finexKey] = normalized;
+}
+
 function collectThemeTokens(
   tree: unknown,
   baseLookup: Record<string, string>,
   prefixParts: string[] = [],
-  out: Record<string, string> = {}
+  out: Record<string, string> = {},
+  inheritedType?: string
 ): Record<string, string> {
   if (!isRecord(tree)) return out;
+  const type = groupType(tree, inheritedType);
   for (const [key, value] of Object.entries(tree)) {
+    if (key.startsWith('$')) continue;
     const nextParts = [...prefixParts, key];
-    if (isTokenLeaf(value)) {
-      // 只同步颜色类 token；避免把 Token Studio 里的 text/number 等类型混进主题色体系
-      if (value.type !== 'color') continue;
-      const finexKey = toFinexKey(nextParts);
-      out[finexKey] = resolveTokenValue(value.value, baseLookup);
+    const leaf = readTokenLeaf(value, type);
+    if (leaf) {
+      // 只同步主题相关类型（color/尺寸/字体/阴影）；Token Studio 里的 text 等类型不会进入主题体系
+      collectLeaf(toFinexKey(nextParts), leaf, baseLookup, out);
       continue;
     }
     if (isRecord(value)) {
-      collectThemeTokens(value, baseLookup, nextParts, out);
+      collectThemeTokens(value, baseLookup, nextParts, out, type);
     }
   }
   return out;
 }
 
+/**
+ * Token Studio 主题分组名 -> 模式名：取最后一段并转成 kebab-case。
+ * - `Finex Color Guidelines/Light` -> `light`
+ * - `Finex Color Guidelines/HighContrast` -> `high-contrast`
+ */
+function toModeName(groupKey: string): ThemeMode {
+  const last = groupKey.slice(groupKey.lastIndexOf('/') + 1).trim();
+  return last
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replaceAll(/[\s_]+/g, '-')
+    .toLowerCase();
+}
+
 function isFinexUiResolved(raw: unknown): raw is FinexUi {
   if (!isRecord(raw)) return false;
-  return isRecord(raw.light) && isRecord(raw.dark);
+  // 已解析产物的每个模式都是“key -> 字符串值”；DTCG 文档的模式分组里是 token 对象
+  const isFlat = (tokens: unknown) => isRecord(tokens) && Object.values(tokens).every((value) => typeof value === 'string');
+  return isRecord(raw.light) && isRecord(raw.dark) && Object.values(raw).every(isFlat);
 }
 
-function resolveFinexUi(raw: unknown): FinexUi {
+/**
+ * 把 Token Studio 导出 / W3C DTCG 文档 / 已解析产物统一解析成 `FinexUi`（`createTheme({ tokenStudio })` 内部使用）。
+ * - 可配合 `diffFinexUi` 对比两份导出
+ */
+export function resolveFinexUi(raw: unknown): FinexUi {
   if (isFinexUiResolved(raw)) return raw;
   if (!isRecord(raw)) {
     throw new Error('@farm-design-system/theme: finex-ui.json 格式不正确');
   }
 
-  const base = raw['base/base'];
-  if (!isRecord(base)) {
-    throw new Error('@farm-design-system/theme: finex-ui.json 缺少 base/base，无法解析 Token Studio 导出的 JSON');
+  // base / base/* 是原始色板/尺寸（只用于解引用）；其余分组（排除 `$themes/$metadata`）都视为主题模式
+  const keys = Object.keys(raw).filter((k) => !k.startsWith('$') && isRecord(raw[k]));
+  const isBaseKey = (k: string) => k === 'base' || k.startsWith('base/');
+  const baseKeys = keys.filter(isBaseKey);
+  const themeKeys = keys.filter((k) => !isBaseKey(k));
+
+  // 引用路径：DTCG 从文档根写起（`{base.purple.6}`），Token Studio 从 base 分组内写起（`{Grey.18}`）
+  const baseLookup: Record<string, string> = collectTokenValues(raw);
+  for (const key of baseKeys) collectTokenValues(raw[key], [], baseLookup);
+
+  // 同名模式的多个分组（例如 `Color/Dark` + `Size/Dark`）会合并
+  const result: Record<string, Record<string, string>> = {};
+  for (const key of themeKeys) {
+    const mode = toModeName(key);
+    result[mode] = collectThemeTokens(raw[key], baseLookup, [], result[mode] ?? {});
   }
 
-  const keys = Object.keys(raw);
-  const lightKey = keys.find((k) => /\/Light$/.test(k));
-  const darkKey = keys.find((k) => /\/Dark$/.test(k));
-
-  if (!lightKey || !darkKey) {
-    throw new Error('@farm-design-system/theme: finex-ui.json 未找到以 "/Light" 或 "/Dark" 结尾的主题分组');
+  if (!result.light || !result.dark) {
+    throw new Error('@farm-design-system/theme: finex-ui.json 未找到 light/dark 主题分组（Token Studio 的 "/Light"、"/Dark" 或 DTCG 的 light/dark 分组）');
   }
 
-  const baseLookup = collectTokenValues(base);
-  const light = collectThemeTokens(raw[lightKey], baseLookup);
-  const dark = collectThemeTokens(raw[darkKey], baseLookup);
-
-  return { light, dark };
+  return result as FinexUi;
 }
 
 const finexUiResolved = resolveFinexUi(finexUiJson as unknown);
@@ -132,24 +320,38 @@ const finexUiResolved = resolveFinexUi(finexUiJson as unknown);
 export const finexUi = finexUiResolved;
 
 /** antd 全局 token -> finex key（由 `sync:assets` 生成）。 */
-export const antdTokenMap = antdTokenMapJson as Record<string, string>;
+export const antdTokenMap = antdTokenMapJson as Record<AntdTokenName, FinexKey>;
 
 /** antd 组件级 token -> finex key（由 `sync:assets` 生成）。 */
-export const antdComponentsMap = antdComponentsMapJson as unknown as Record<string, Record<string, string>>;
+export const antdComponentsMap = antdComponentsMapJson as unknown as {
+  [C in AntdComponentName]: Record<AntdComponentTokenNames[C], FinexKey>;
+};
 
-function assertThemeIntegrity(): void {
-  const finexLight = finexUi.light;
-  const finexDark = finexUi.dark;
+/** antdComponentsMap 里声明过的组件名 */
+export type AntdComponentName = keyof AntdComponentTokenNames;
+
+/** 内置主题包含的模式（顺序与 finex-ui.json 一致，`light` 总是第一个）。 */
+export const themeModes: ThemeMode[] = getThemeModes(finexUi);
+
+function getThemeModes(source: FinexUi): ThemeMode[] {
+  return ['light', ...Object.keys(source).filter((mode) => mode !== 'light')];
+}
 
+function mapModes<T>(modes: ThemeMode[], fn: (mode: ThemeMode) => T): Record<ThemeMode, T> {
+  const result = {} as Record<ThemeMode, T>;
+  for (const mode of modes) result[mode] = fn(mode);
+  return result;
+}
+
+function assertThemeIntegrity(): void {
   for (const [antdToken, finexKey] of Object.entries(antdTokenMap)) {
     if (typeof finexKey !== 'string') {
       throw new Error(`@farm-design-system/theme: antdTokenMap["${antdToken}"] 必须是 string。`);
     }
-    if (!Object.prototype.hasOwnProperty.call(finexLight, finexKey)) {
-      throw new Error(`@farm-design-system/theme: antdTokenMap["${antdToken}"] 指向不存在的 finex key "${finexKey}" (light)。`);
-    }
-    if (!Object.prototype.hasOwnProperty.call(finexDark, finexKey)) {
-      throw new Error(`@farm-design-system/theme: antdTokenMap["${antdToken}"] 指向不存在的 finex key "${finexKey}" (dark)。`);
+    for (const mode of themeModes) {
+      if (!Object.prototype.hasOwnProperty.call(finexUi[mode], finexKey)) {
+        throw new Error(`@farm-design-system/theme: antdTokenMap["${antdToken}"] 指向不存在的 finex key "${finexKey}" (${mode})。`);
+      }
     }
   }
 
@@ -161,15 +363,12 @@ function assertThemeIntegrity(): void {
       if (typeof finexKey !== 'string') {
         throw new Error(`@farm-design-system/theme: antdComponentsMap["${componentName}"]["${componentToken}"] 必须是 string。`);
       }
-      if (!Object.prototype.hasOwnProperty.call(finexLight, finexKey)) {
-        throw new Error(
-          `@farm-design-system/theme: antdComponentsMap["${componentName}"]["${componentToken}"] 指向不存在的 finex key "${finexKey}" (light)。`
-        );
-      }
-      if (!Object.prototype.hasOwnProperty.call(finexDark, finexKey)) {
-        throw new Error(
-          `@farm-design-system/theme: antdComponentsMap["${componentName}"]["${componentToken}"] 指向不存在的 finex key "${finexKey}" (dark)。`
-        );
+      for (const mode of themeModes) {
+        if (!Object.prototype.hasOwnProperty.call(finexUi[mode], finexKey)) {
+          throw new Error(
+            `@farm-design-system/theme: antdComponentsMap["${componentName}"]["${componentToken}"] 指向不存在的 finex key "${finexKey}" (${mode})。`
+          );
+        }
       }
     }
   }
@@ -177,33 +376,75 @@ function assertThemeIntegrity(): void {
 
 assertThemeIntegrity();
 
-export type AntdTokenName = string;
+const mappedAntdTokens = Object.keys(antdTokenMap) as AntdTokenName[];
+
+/** 判断任意字符串是否为 antdTokenMap 里声明过的 token（用于收窄外部输入，例如 JSON/表单） */
+export function isAntdTokenName(token: string): token is AntdTokenName {
+  return Object.prototype.hasOwnProperty.call(antdTokenMap, token);
+}
+
+/**
+ * antd token 值的分类（按 antd token 命名约定推断）：
+ * - 决定 Tailwind preset 里落到哪个 theme key（colors/spacing/borderRadius/fontSize/boxShadow）
+ * - 未命中任何尺寸/字体/阴影前缀的 token 视为颜色（`colorXxx`、`blue6`、`controlItemBgHover` 等）
+ */
+export type TokenCategory =
+  | 'color'
+  | 'spacing'
+  | 'borderRadius'
+  | 'fontSize'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'lineHeight'
+  | 'boxShadow';
+
+/** 颜色类 token（与 `getTokenCategory` 的前缀规则一致） */
+export type ColorTokenName = Exclude<
+  AntdTokenName,
+  `${'borderRadius' | 'fontSize' | 'fontFamily' | 'fontWeight' | 'lineHeight' | 'boxShadow' | 'padding' | 'margin' | 'size' | 'controlHeight'}${string}`
+>;
+
+export function getTokenCategory(token: string): TokenCategory {
+  if (/^borderRadius/.test(token)) return 'borderRadius';
+  if (/^fontSize/.test(token)) return 'fontSize';
+  if (/^fontFamily/.test(token)) return 'fontFamily';
+  if (/^fontWeight/.test(token)) return 'fontWeight';
+  if (/^lineHeight/.test(token)) return 'lineHeight';
+  if (/^boxShadow/.test(token)) return 'boxShadow';
+  if (/^(padding|margin|size|controlHeight)/.test(token)) return 'spacing';
+  return 'color';
+}
 
-const mappedAntdTokens = Object.keys(antdTokenMap);
+/**
+ * finex 值（CSS 字符串）-> antd token 值。
+ * - antd 的尺寸/字重/行高 token 是 number：`8px` -> 8，`600` -> 600，`1.5` -> 1.5
+ * - 其它（颜色、字体、阴影、带其它单位的值）原样透传
+ */
+function toAntdTokenValue(value: string): string | number {
+  const match = /^(-?\d*\.?\d+)(px)?$/.exec(value.trim());
+  return match ? Number(match[1]) : value;
+}
 
 export type MappedAntdTokensByMode = Record<ThemeMode, Record<AntdTokenName, string>>;
 
 function resolveModeTokens(
   mode: ThemeMode,
-  options: { finexUi: FinexUi; overrides?: Record<string, string> } // 覆写最终色值（hex/rgba）
-): Record<string, string> {
+  options: { finexUi: FinexUi; overrides?: Partial<Record<AntdTokenName, string>> } // 覆写最终值（hex/rgba/8px 等）
+): Record<AntdTokenName, string> {
   const modeFinex = options.finexUi[mode];
-  const result: Record<string, string> = {};
-  for (const [antdToken, finexKey] of Object.entries(antdTokenMap)) {
-    result[antdToken] = options.overrides?.[antdToken] ?? modeFinex[finexKey]!;
+  const result = {} as Record<AntdTokenName, string>;
+  for (const antdToken of mappedAntdTokens) {
+    result[antdToken] = options.overrides?.[antdToken] ?? modeFinex[antdTokenMap[antdToken]]!;
   }
   return result;
 }
 
 /**
- * 内置主题的“映射后 antd token 值”（light/dark）。
+ * 内置主题的“映射后 antd token 值”（按模式：light/dark 以及 finex-ui.json 里的其它模式）。
  * - key：antd token 名
- * - value：最终色值（由 finex key 解引用后得到）
+ * - value：最终值（由 finex key 解引用后得到；颜色为 hex/rgba，尺寸为 `8px` 等 CSS 值）
  */
-export const tokens: MappedAntdTokensByMode = {
-  light: resolveModeTokens('light', { finexUi }),
-  dark: resolveModeTokens('dark', { finexUi })
-};
+export const tokens: MappedAntdTokensByMode = mapModes(themeModes, (mode) => resolveModeTokens(mode, { finexUi }));
 
 export function getToken(mode: ThemeMode, token: AntdTokenName): string {
   const value = tokens[mode]?.[token];
@@ -218,23 +459,24 @@ export function getToken(mode: ThemeMode, token: AntdTokenName): string {
  *
  * - 统一前缀 `--farm-` 作为命名空间，避免与业务/第三方变量冲突
  * - `colorPrimary` -> `--farm-color-primary`
+ * - 映射表里的 token 返回字面量类型（`cssVarName('colorPrimary')` 的类型就是 `'--farm-color-primary'`）
  */
-export function cssVarName(token: AntdTokenName): `--farm-${string}` {
+export function cssVarName<T extends AntdTokenName>(token: T): AntdTokenCssVars[T] {
   // 与 @ant-design/cssinjs 的 token2CSSVar 保持一致
-  return (`--farm-${token}` as const)
+  return `--farm-${token}`
     .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
     .replace(/([A-Z]+)([A-Z][a-z0-9]+)/g, '$1-$2')
     .replace(/([a-z])([A-Z0-9])/g, '$1-$2')
-    .toLowerCase() as `--farm-${string}`;
+    .toLowerCase() as AntdTokenCssVars[T];
 }
 
-export const cssVarNames: Record<AntdTokenName, `--farm-${string}`> = mappedAntdTokens.reduce(
+export const cssVarNames: AntdTokenCssVars = mappedAntdTokens.reduce(
   (acc, token) => {
     acc[token] = cssVarName(token);
     return acc;
   },
-  {} as Record<AntdTokenName, `--farm-${string}`>
-);
+  {} as Record<AntdTokenName, string>
+) as AntdTokenCssVars;
 
 export type CssVarsByMode = Record<ThemeMode, Record<`--farm-${string}`, string>>;
 
@@ -246,16 +488,20 @@ function resolveModeCssVars(modeTokens: Record<string, string>): Record<`--farm-
   return result;
 }
 
-export const cssVars: CssVarsByMode = {
-  light: resolveModeCssVars(tokens.light),
-  dark: resolveModeCssVars(tokens.dark)
-};
+export const cssVars: CssVarsByMode = mapModes(themeModes, (mode) => resolveModeCssVars(tokens[mode]!));
 
 export type TokensCssOptions = {
   lightSelector?: string;
   darkSelector?: string;
+  /** 其它模式的选择器（key 为模式名；`light/dark` 也可在这里传，`lightSelector/darkSelector` 优先） */
+  selectors?: Partial<Record<ThemeMode, string>>;
   /** 支持传入自定义 vars（例如多项目覆写后生成的 cssVars） */
   vars?: CssVarsByMode;
+  /**
+   * 品牌名：传入时默认选择器会收窄到 `[data-brand="<brand>"]` 之下（多品牌同页共存）。
+   * - 显式传入的 `lightSelector/darkSelector/selectors` 仍然优先
+   */
+  brand?: string;
 };
 
 function formatCssVarBlock(selector: string, vars: Record<string, string>): string {
@@ -263,26 +509,48 @@ function formatCssVarBlock(selector: string, vars: Record<string, string>): stri
   return `${selector} {\n${lines.join('\n')}\n}`;
 }
 
+function brandSelector(brand: string): string {
+  return `[data-brand="${brand.replaceAll('"', '\\"')}"]`;
+}
+
+function defaultModeSelector(mode: ThemeMode, scope: string | null): string {
+  const attr = `[data-theme="${mode.replaceAll('"', '\\"')}"]`;
+  if (scope) return mode === 'light' ? `${scope}, ${scope}${attr}, ${scope} ${attr}` : `${scope}${attr}, ${scope} ${attr}`;
+  // `.light/.dark` 是内置模式一直支持的类名；其它模式只用 data-theme（`.compact` 这类类名容易与业务样式冲突），需要类名时显式传 `selectors`
+  if (mode === 'light') return `:root, ${attr}, .light`;
+  if (mode === 'dark') return `${attr}, .dark`;
+  return attr;
+}
+
+/**
+ * 按模式生成 CSS 变量块（不含文件头注释），供 `createTokensCss` 与多品牌注册表拼接。
+ * - 顺序：`light` 在前（作为 `:root` 兜底），其余模式按 vars 的 key 顺序
+ */
+export function createTokensCssBlocks(options: TokensCssOptions = {}): string[] {
+  const scope = options.brand === undefined ? null : brandSelector(options.brand);
+  const vars = options.vars ?? cssVars;
+  const selectors: Partial<Record<ThemeMode, string>> = { ...options.selectors };
+  if (options.lightSelector !== undefined) selectors.light = options.lightSelector;
+  if (options.darkSelector !== undefined) selectors.dark = options.darkSelector;
+
+  const modes = ['light', ...Object.keys(vars).filter((mode) => mode !== 'light')];
+  return modes.map((mode) => formatCssVarBlock(selectors[mode] ?? defaultModeSelector(mode, scope), vars[mode]!));
+}
+
 /**
- * 生成 CSS 变量声明文本（同时包含 light/dark 两套）。
+ * 生成 CSS 变量声明文本（每个模式一个块）。
  *
  * 默认选择器：
  * - light：`:root, [data-theme="light"], .light`
  * - dark：`[data-theme="dark"], .dark`
+ * - 其它模式：只用 `[data-theme="<mode>"]`；需要类名时显式传 `selectors: { compact: '.compact' }`
+ *
+ * 传入 `brand` 时：
+ * - light：`[data-brand="x"], [data-brand="x"][data-theme="light"], [data-brand="x"] [data-theme="light"]`
+ * - 其它模式：`[data-brand="x"][data-theme="<mode>"], [data-brand="x"] [data-theme="<mode>"]`
  */
 export function createTokensCss(options: TokensCssOptions = {}): string {
-  const {
-    lightSelector = ':root, [data-theme="light"], .light',
-    darkSelector = '[data-theme="dark"], .dark',
-    vars = cssVars
-  } = options;
-
-  return [
-    '/* Auto-generated by @farm-design-system/theme. */',
-    formatCssVarBlock(lightSelector, vars.light),
-    formatCssVarBlock(darkSelector, vars.dark),
-    ''
-  ].join('\n\n');
+  return ['/* Auto-generated by @farm-design-system/theme. */', ...createTokensCssBlocks(options), ''].join('\n\n');
 }
 
 export type AntdThemeConfig = {
@@ -291,16 +559,36 @@ export type AntdThemeConfig = {
 };
 
 export type CreateAntdThemeOptions = {
+  /** 覆写圆角（默认 8；设计 token 映射了 `borderRadius` 时取映射值） */
   borderRadius?: number;
   /** 最后一公里覆写 antd token（不建议日常使用） */
   overrides?: Record<string, string | number>;
-  /** 最后一公里覆写 antd 组件级 token（不建议日常使用） */
-  components?: Record<string, Record<string, string | number>>;
+  /** 最后一公里覆写 antd 组件级 token（不建议日常使用；只接受 antdComponentsMap 里声明过的组件/token） */
+  components?: AntdComponentOverrides;
+};
+
+/** 组件级 token 覆写：`{ Button: { colorPrimary: '#000' } }` */
+export type AntdComponentOverrides = {
+  [C in AntdComponentName]?: Partial<Record<AntdComponentTokenNames[C] | AntdComponentSizeName<C>, string | number>>;
 };
 
+/**
+ * 设计 token 里还没有的组件尺寸（Finex 目前只导出颜色），随 `antdTheme.components` 输出：
+ * - `Button.largeHeight/cancelLargeHeight/compactHeight`：ui 预设按钮的高度（antd 本身没有这几个 token）
+ * - `Modal.borderRadiusLG`：弹窗圆角（antd Modal 与 ui Modal 共用）
+ */
+export const antdComponentSizes = {
+  Button: { largeHeight: 48, cancelLargeHeight: 52, compactHeight: 20 },
+  Modal: { borderRadiusLG: 20 }
+} satisfies { [C in AntdComponentName]?: Record<string, number> };
+
+type AntdComponentSizeName<C extends AntdComponentName> = C extends keyof typeof antdComponentSizes
+  ? keyof (typeof antdComponentSizes)[C]
+  : never;
+
 function resolveAntdComponents(
   mode: ThemeMode,
-  options: { finexUi?: FinexUi; overrides?: Record<string, Record<string, string | number>> } = {}
+  options: { finexUi?: FinexUi; overrides?: AntdComponentOverrides } = {}
 ): Record<string, Record<string, string | number>> {
   const result: Record<string, Record<string, string | number>> = {};
   const modeFinex = (options.finexUi ?? finexUi)[mode];
@@ -308,9 +596,9 @@ function resolveAntdComponents(
   for (const [componentName, tokenMap] of Object.entries(antdComponentsMap)) {
     const componentTokens: Record<string, string | number> = {};
     for (const [componentToken, finexKey] of Object.entries(tokenMap)) {
-      componentTokens[componentToken] = modeFinex[finexKey]!;
+      componentTokens[componentToken] = toAntdTokenValue(modeFinex[finexKey]!);
     }
-    result[componentName] = componentTokens;
+    result[componentName] = { ...componentTokens, ...(antdComponentSizes as Record<string, Record<string, number>>)[componentName] };
   }
 
   if (options.overrides) {
@@ -327,14 +615,14 @@ function resolveAntdTheme(
   options: CreateAntdThemeOptions & { modeTokens?: Record<string, string>; finexUi?: FinexUi } = {}
 ): AntdThemeConfig {
   const modeFinexUi = options.finexUi ?? finexUi;
-  const token: Record<string, string | number> = {
-    borderRadius: options.borderRadius ?? 8
-  };
+  const token: Record<string, string | number> = {};
 
   for (const [antdToken, finexKey] of Object.entries(antdTokenMap)) {
-    token[antdToken] = options.modeTokens?.[antdToken] ?? modeFinexUi[mode][finexKey]!;
+    token[antdToken] = toAntdTokenValue(options.modeTokens?.[antdToken] ?? modeFinexUi[mode][finexKey]!);
   }
 
+  token.borderRadius = options.borderRadius ?? token.borderRadius ?? 8;
+
   if (options.overrides) {
     Object.assign(token, options.overrides);
   }
@@ -344,83 +632,191 @@ function resolveAntdTheme(
 }
 
 /**
- * 主题包内置的 antd 主题配置（light/dark）。
+ * 主题包内置的 antd 主题配置（按模式）。
  * - 只包含我们明确映射过的 token（见 `antdTokenMap/antdComponentsMap`）
- * - 其余 token 仍由 antd algorithm 派生
+ * - 其余 token 仍由 antd algorithm 派生（见 `modeAlgorithms`）
  */
-export const antdTheme: Record<ThemeMode, AntdThemeConfig> = {
-  light: resolveAntdTheme('light'),
-  dark: resolveAntdTheme('dark')
-};
+export const antdTheme: Record<ThemeMode, AntdThemeConfig> = mapModes(themeModes, (mode) => resolveAntdTheme(mode));
+
+/**
+ * antd 内置算法名（`FarmProvider` 会映射到 `theme.defaultAlgorithm/darkAlgorithm/compactAlgorithm`）。
+ * - 用名字而不是函数，保证 `ThemeBundle` 可序列化、且主题包核心入口不依赖 antd
+ */
+export type ThemeAlgorithm = 'default' | 'dark' | 'compact';
+
+/**
+ * 模式默认使用的 antd 算法：名字里带 `dark/dim` 的模式走暗色算法，其余走默认算法。
+ * - 需要其它组合（例如 `high-contrast` + compact）时用 `createTheme({ algorithms })` 显式指定
+ */
+export function inferModeAlgorithms(mode: ThemeMode): ThemeAlgorithm[] {
+  return /dark|dim/i.test(mode) ? ['dark'] : ['default'];
+}
+
+export const modeAlgorithms: Record<ThemeMode, ThemeAlgorithm[]> = mapModes(themeModes, inferModeAlgorithms);
 
 export type ThemeBundle = {
   finexUi: FinexUi;
+  /** 主题包含的模式（`light` 在前） */
+  modes: ThemeMode[];
   tokens: MappedAntdTokensByMode;
   cssVars: CssVarsByMode;
   antdTheme: Record<ThemeMode, AntdThemeConfig>;
+  /** 每个模式注入 antd 时使用的算法 */
+  algorithms: Record<ThemeMode, ThemeAlgorithm[]>;
 };
 
+/** 按模式覆写 antd token 的最终值（颜色用 hex/rgba，尺寸类用 CSS 值，例如 `12px`） */
+export type ThemeOverrides = Partial<Record<ThemeMode, Partial<Record<AntdTokenName, string>>>>;
+
 export type CreateThemeOptions = {
   finexUi?: FinexUi;
+  /**
+   * Token Studio 原始导出（含 `base/base` + `/Light` + `/Dark` 以及其它模式分组），与 `finexUi` 二选一。
+   * - 适合多品牌场景：每个品牌直接传自己的导出 JSON，由主题包完成引用解析
+   * - 也接受 W3C DTCG 文档（`$value/$type`；顶层 `base` 放原始色板，`light/dark/...` 分组为模式）
+   */
+  tokenStudio?: unknown;
   /**
    * 项目级覆写（最常用的多项目能力）：
    * - key 是 antd token 名（例如 colorPrimary）
-   * - value 是最终色值（建议用 hex / rgba）
+   * - value 是最终值（颜色建议用 hex / rgba；尺寸类 token 用 CSS 值，例如 `12px`）
    *
    * 覆写顺序：
    * - overrides 会影响 `tokens/cssVars/antdTheme` 的最终结果
    */
-  overrides?: Partial<Record<ThemeMode, Partial<Record<string, string>>>>;
+  overrides?: ThemeOverrides;
   /**
    * 透传给 antdTheme 生成逻辑（仅影响 antd 的 `ConfigProvider theme`）
    * - `overrides` 仍是第一优先级（先覆写映射后的 token，再注入给 antd）
    * - `antd.light/dark.overrides` 用于“最后一公里”覆盖（例如某些 antd token 必须和算法保持一致时）
    */
   antd?: Partial<Record<ThemeMode, CreateAntdThemeOptions>>;
+  /** 按模式指定 antd 算法（未指定的模式见 `inferModeAlgorithms`） */
+  algorithms?: Partial<Record<ThemeMode, ThemeAlgorithm[]>>;
 };
 
 export function createTheme(options: CreateThemeOptions = {}): ThemeBundle {
-  const finex = options.finexUi ?? finexUi;
+  const finex = options.finexUi ?? (options.tokenStudio === undefined ? finexUi : resolveFinexUi(options.tokenStudio));
 
-  const resolvedTokens: MappedAntdTokensByMode = {
-    light: resolveModeTokens('light', { finexUi: finex, overrides: options.overrides?.light as Record<string, string> | undefined }),
-    dark: resolveModeTokens('dark', { finexUi: finex, overrides: options.overrides?.dark as Record<string, string> | undefined })
-  };
+  const modes = getThemeModes(finex);
 
-  const resolvedCssVars: CssVarsByMode = {
-    light: resolveModeCssVars(resolvedTokens.light),
-    dark: resolveModeCssVars(resolvedTokens.dark)
-  };
+  const resolvedTokens: MappedAntdTokensByMode = mapModes(modes, (mode) =>
+    resolveModeTokens(mode, { finexUi: finex, overrides: options.overrides?.[mode] })
+  );
 
-  const resolvedAntdTheme: Record<ThemeMode, AntdThemeConfig> = {
-    light: resolveAntdTheme('light', { ...options.antd?.light, modeTokens: resolvedTokens.light, finexUi: finex }),
-    dark: resolveAntdTheme('dark', { ...options.antd?.dark, modeTokens: resolvedTokens.dark, finexUi: finex })
-  };
+  const resolvedCssVars: CssVarsByMode = mapModes(modes, (mode) => resolveModeCssVars(resolvedTokens[mode]!));
+
+  const resolvedAntdTheme: Record<ThemeMode, AntdThemeConfig> = mapModes(modes, (mode) =>
+    resolveAntdTheme(mode, { ...options.antd?.[mode], modeTokens: resolvedTokens[mode], finexUi: finex })
+  );
 
   return {
     finexUi: finex,
+    modes,
     tokens: resolvedTokens,
     cssVars: resolvedCssVars,
-    antdTheme: resolvedAntdTheme
+    antdTheme: resolvedAntdTheme,
+    algorithms: mapModes(modes, (mode) => options.algorithms?.[mode] ?? inferModeAlgorithms(mode))
   };
 }
 
-export const tailwindColors: Record<string, string> = (() => {
-  const result: Record<string, string> = {};
+export type ExtendThemeOptions = Pick<CreateThemeOptions, 'overrides' | 'algorithms'>;
+
+/**
+ * 在已有主题上叠加少量覆写（嵌套 `FarmProvider` 的局部换肤）：
+ * - 未覆写的 token 完全沿用 `bundle`（包括 `bundle` 自己的 overrides/antd 覆写）
+ * - 与 `createTheme({ overrides })` 一样只接受 antdTokenMap 里声明过的 token
+ */
+export function extendTheme(bundle: ThemeBundle, options: ExtendThemeOptions): ThemeBundle {
+  const modes = bundle.modes;
+
+  const pickOverrides = (mode: ThemeMode): Partial<Record<AntdTokenName, string>> => {
+    const result: Partial<Record<AntdTokenName, string>> = {};
+    for (const [token, value] of Object.entries(options.overrides?.[mode] ?? {})) {
+      if (value !== undefined && isAntdTokenName(token)) result[token] = value;
+    }
+    return result;
+  };
+
+  const resolvedTokens: MappedAntdTokensByMode = mapModes(modes, (mode) => ({ ...bundle.tokens[mode], ...pickOverrides(mode) }));
+
+  const resolvedAntdTheme: Record<ThemeMode, AntdThemeConfig> = mapModes(modes, (mode) => {
+    const base = bundle.antdTheme[mode]!;
+    const token = { ...base.token };
+    for (const [name, value] of Object.entries(pickOverrides(mode))) token[name] = toAntdTokenValue(value);
+    return { ...base, token };
+  });
+
+  return {
+    finexUi: bundle.finexUi,
+    modes,
+    tokens: resolvedTokens,
+    cssVars: mapModes(modes, (mode) => resolveModeCssVars(resolvedTokens[mode]!)),
+    antdTheme: resolvedAntdTheme,
+    algorithms: { ...bundle.algorithms, ...options.algorithms } as Record<ThemeMode, ThemeAlgorithm[]>
+  };
+}
+
+/**
+ * 把主题配置输出成可直接粘贴的代码片段（`ThemeEditor` 的“导出”）。
+ * - `json`：`CreateThemeOptions` 的 JSON（可存成文件后 `createTheme(json)`）
+ * - `ts`：带 import 与类型标注的 TS 模块
+ */
+export function formatThemeOptions(options: CreateThemeOptions, format: 'json' | 'ts' = 'ts'): string {
+  const json = JSON.stringify(options, null, 2);
+  if (format === 'json') return `${json}\n`;
+
+  return [
+    "import { createTheme, type CreateThemeOptions } from '@farm-design-system/theme';",
+    '',
+    `export const themeOptions: CreateThemeOptions = ${json};`,
+    '',
+    'export const theme = createTheme(themeOptions);',
+    ''
+  ].join('\n');
+}
+
+function buildTailwindTheme() {
+  const colors: Record<string, string> = {};
+  const spacing: Record<string, string> = {};
+  const borderRadius: Record<string, string> = {};
+  const fontSize: Record<string, string> = {};
+  const boxShadow: Record<string, string> = {};
+
   for (const token of mappedAntdTokens) {
     const varName = cssVarNames[token];
-    const key = varName.replace(/^--farm-/, '');
-    result[key] = `var(${varName})`;
+    const value = `var(${varName})`;
+    const category = getTokenCategory(token);
+    // 颜色沿用 `farm` 嵌套（`text-farm-color-primary`）；其余分类用扁平 key（`p-farm-padding-lg`）
+    if (category === 'color') colors[varName.replace(/^--farm-/, '')] = value;
+    else if (category === 'spacing') spacing[varName.replace(/^--/, '')] = value;
+    else if (category === 'borderRadius') borderRadius[varName.replace(/^--/, '')] = value;
+    else if (category === 'fontSize') fontSize[varName.replace(/^--/, '')] = value;
+    else if (category === 'boxShadow') boxShadow[varName.replace(/^--/, '')] = value;
   }
-  return result;
-})();
+
+  return { colors, spacing, borderRadius, fontSize, boxShadow };
+}
+
+const tailwindTheme = buildTailwindTheme();
+
+type WithoutFarmPrefix<T> = T extends `--farm-${infer Name}` ? Name : never;
+
+/** `tailwindColors` 的 key：颜色 token 的 CSS 变量名去掉 `--farm-`（`colorPrimary` -> `color-primary`） */
+export type TailwindColorName = WithoutFarmPrefix<AntdTokenCssVars[ColorTokenName]>;
+
+export const tailwindColors = tailwindTheme.colors as Record<TailwindColorName, string>;
 
 export const tailwindPreset = {
   theme: {
     extend: {
       colors: {
         farm: tailwindColors
-      }
+      },
+      spacing: tailwindTheme.spacing,
+      borderRadius: tailwindTheme.borderRadius,
+      fontSize: tailwindTheme.fontSize,
+      boxShadow: tailwindTheme.boxShadow
     }
   }
 } as const;
@@ -1,18 +1,27 @@
 import '@testing-library/jest-dom/vitest';
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { cleanup, render } from '@testing-library/react';
+import { act, cleanup, fireEvent, render, waitFor } from '@testing-library/react';
 
 afterEach(() => cleanup());
 
 vi.mock('antd', async () => {
   const React = (await import('react')).default;
+  const SizeContext = React.createContext<string | undefined>(undefined);
   return {
-    ConfigProvider: (props: { children?: React.ReactNode }) => React.createElement(React.Fragment, null, props.children),
+    ConfigProvider: Object.assign(
+      (props: { componentSize?: string; children?: React.ReactNode }) =>
+        React.createElement(SizeContext.Provider, { value: props.componentSize }, props.children),
+      { useConfig: () => ({ componentSize: React.useContext(SizeContext) }) }
+    ),
     Button: (props: unknown) =>
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (() => {
-        const { autoInsertSpace: _autoInsertSpace, ...rest } = props as any;
-        return React.createElement('button', { 'data-testid': 'antd-button', ...rest }, rest.children);
+        const { autoInsertSpace: _autoInsertSpace, size, block, loading, ...rest } = props as any;
+        return React.createElement(
+          'button',
+          { 'data-testid': 'antd-button', 'data-size': size, 'data-block': block, 'data-loading': loading, ...rest },
+          rest.children
+        );
       })(),
     theme: {
       useToken: () => ({ theme: {}, token: {}, hashId: 'test-hash', cssVar: {} }),
@@ -23,7 +32,9 @@ vi.mock('antd', async () => {
 });
 
 const React = (await import('react')).default;
-const { Button, CancelButton, GreyButton, PrimaryButton } = await import('../index');
+const { ConfigProvider } = await import('antd');
+const { Button, CancelButton, DangerButton, GreyButton, LinkButton, OutlineButton, PrimaryButton, TextButton, WarningButton } =
+  await import('../index');
 
 describe('Button', () => {
   it('透传 props 到 antd Button', () => {
@@ -51,4 +62,124 @@ describe('Button', () => {
     expect(el).toHaveAttribute('color', 'default');
     expect(el).toHaveAttribute('variant', 'filled');
   });
+
+  it('预设按钮默认 large，compact 按 antd small 渲染', () => {
+    const { getAllByTestId } = render(
+      React.createElement(
+        React.Fragment,
+        null,
+        React.createElement(PrimaryButton, null, 'large'),
+        React.createElement(PrimaryButton, { size: 'middle' }, 'middle'),
+        React.createElement(GreyButton, { size: 'compact' }, 'compact')
+      )
+    );
+    const [large, middle, compact] = getAllByTestId('antd-button');
+    expect(large).toHaveAttribute('data-size', 'large');
+    expect(middle).toHaveAttribute('data-size', 'middle');
+    expect(compact).toHaveAttribute('data-size', 'small');
+    // 尺寸 class 不同，样式 class 相同
+    expect(large!.className).not.toBe(middle!.className);
+    expect(large!.className.split(' ')[1]).toBe(middle!.className.split(' ')[1]);
+  });
+
+  it('未传 size 时沿用 ConfigProvider componentSize，显式 size 优先', () => {
+    const { getAllByTestId } = render(
+      React.createElement(
+        ConfigProvider,
+        { componentSize: 'small' },
+        React.createElement(PrimaryButton, null, 'context'),
+        React.createElement(PrimaryButton, { size: 'compact' }, 'compact')
+      )
+    );
+    const [context, compact] = getAllByTestId('antd-button');
+    expect(context).toHaveAttribute('data-size', 'small');
+    expect(compact).toHaveAttribute('data-size', 'small');
+    expect(context!.className).not.toBe(compact!.className);
+  });
+
+  it('CancelButton 在 large 下使用自己的尺寸，其它尺寸与主按钮一致', () => {
+    const { getAllByTestId } = render(
+      React.createElement(
+        React.Fragment,
+        null,
+        React.createElement(PrimaryButton, null, 'a'),
+        React.createElement(CancelButton, null, 'b'),
+        React.createElement(PrimaryButton, { size: 'small' }, 'c'),
+        React.createElement(CancelButton, { size: 'small' }, 'd')
+      )
+    );
+    const sizeClassOf = (el: HTMLElement) => el.className.split(' ')[0];
+    const [primaryLarge, cancelLarge, primarySmall, cancelSmall] = getAllByTestId('antd-button');
+    expect(sizeClassOf(cancelLarge!)).not.toBe(sizeClassOf(primaryLarge!));
+    expect(sizeClassOf(cancelSmall!)).toBe(sizeClassOf(primarySmall!));
+  });
+
+  it('icon、block 透传，className 追加在预设之后', () => {
+    const icon = React.createElement('span', { 'data-testid': 'icon' });
+    const { getByTestId } = render(React.createElement(PrimaryButton, { icon, block: true, className: 'custom' }));
+    const el = getByTestId('antd-button');
+    expect(el).toHaveAttribute('data-block', 'true');
+    expect(el.className.split(' ')).toHaveLength(3);
+    expect(el).toHaveClass('custom');
+  });
+
+  it('扩展样式映射到 antd color/variant', () => {
+    const cases = [
+      [DangerButton, 'danger', 'solid'],
+      [OutlineButton, 'primary', 'outlined'],
+      [TextButton, 'default', 'text'],
+      [LinkButton, 'primary', 'link'],
+      [WarningButton, 'default', 'filled']
+    ] as const;
+
+    for (const [Component, color, variant] of cases) {
+      const { getByTestId, unmount } = render(React.createElement(Component, { size: 'small' }, 'Hello'));
+      const el = getByTestId('antd-button');
+      expect(el).toHaveAttribute('color', color);
+      expect(el).toHaveAttribute('variant', variant);
+      expect(el).toHaveAttribute('data-size', 'small');
+      unmount();
+    }
+  });
+
+  it('onClick 返回 Promise 时自动 loading，结束前忽略重复点击', async () => {
+    let resolve!: () => void;
+    const onClick = vi.fn(() => new Promise<void>((r) => (resolve = r)));
+    const { getByTestId } = render(React.createElement(PrimaryButton, { onClick }, 'Submit'));
+    const el = getByTestId('antd-button');
+    expect(el).toHaveAttribute('data-loading', 'false');
+
+    fireEvent.click(el);
+    fireEvent.click(el);
+    expect(onClick).toHaveBeenCalledTimes(1);
+    expect(el).toHaveAttribute('data-loading', 'true');
+
+    await act(async () => resolve());
+    expect(el).toHaveAttribute('data-loading', 'false');
+    fireEvent.click(el);
+    expect(onClick).toHaveBeenCalledTimes(2);
+  });
+
+  it('Promise 失败时交给 onClickError；传入 loading 时以传入为准', async () => {
+    const error = new Error('boom');
+    const onClickError = vi.fn();
+    const { getByTestId } = render(
+      React.createElement(Button, { onClick: () => Promise.reject(error), onClickError, loading: false }, 'Submit')
+    );
+    const el = getByTestId('antd-button');
+
+    fireEvent.click(el);
+    expect(el).toHaveAttribute('data-loading', 'false');
+    await waitFor(() => expect(onClickError).toHaveBeenCalledWith(error));
+  });
+
+  it('Promise 失败且未传 onClickError 时输出到 console.error', async () => {
+    const error = new Error('boom');
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { getByTestId } = render(React.createElement(Button, { onClick: () => Promise.reject(error) }, 'Submit'));
+
+    fireEvent.click(getByTestId('antd-button'));
+    await waitFor(() => expect(consoleError).toHaveBeenCalledWith('Button onClick error:', error));
+    consoleError.mockRestore();
+  });
 });
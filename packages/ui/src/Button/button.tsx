@@ -4,12 +4,71 @@ import React from 'react';
 import { Button as AntButton } from 'antd';
 import type { ButtonProps as AntButtonProps } from 'antd';
 
-export type ButtonProps = AntButtonProps;
+export interface ButtonProps extends Omit<AntButtonProps, 'onClick'> {
+  /**
+   * 点击回调；返回 Promise 时：
+   * - 自动显示 loading，直到 Promise 结束（传入 `loading` 时以传入为准）
+   * - 结束前再次点击会被忽略，避免重复提交
+   */
+  onClick?(e: React.MouseEvent<HTMLElement>): void | Promise<unknown>;
+  /** `onClick` 返回的 Promise 失败时触发；未传入时输出到 `console.error` */
+  onClickError?: (error: unknown) => void;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+}
 
 export const Button = React.forwardRef<HTMLButtonElement | HTMLAnchorElement, ButtonProps>((props, ref) => {
-  const { autoInsertSpace = false, ...rest } = props;
-  return <AntButton ref={ref} autoInsertSpace={autoInsertSpace} {...rest} />;
+  const { autoInsertSpace = false, loading, onClick, onClickError, ...rest } = props;
+
+  const [pending, setPending] = React.useState(false);
+  // 同步拦截连击（state 更新前的第二次点击）
+  const pendingRef = React.useRef(false);
+  const mountedRef = React.useRef(true);
+  React.useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const handleClick = React.useCallback(
+    (e: React.MouseEvent<HTMLElement>) => {
+      if (pendingRef.current) return;
+
+      const result = onClick?.(e);
+      if (!isPromiseLike(result)) return;
+
+      pendingRef.current = true;
+      setPending(true);
+      const settle = () => {
+        pendingRef.current = false;
+        if (mountedRef.current) setPending(false);
+      };
+
+      Promise.resolve(result).then(settle, (error: unknown) => {
+        settle();
+        if (onClickError) {
+          onClickError(error);
+        } else {
+          // eslint-disable-next-line no-console
+          console.error('Button onClick error:', error);
+        }
+      });
+    },
+    [onClick, onClickError]
+  );
+
+  return (
+    <AntButton
+      ref={ref}
+      autoInsertSpace={autoInsertSpace}
+      {...rest}
+      loading={loading ?? pending}
+      onClick={onClick ? handleClick : undefined}
+    />
+  );
 });
 
 Button.displayName = 'Button';
-
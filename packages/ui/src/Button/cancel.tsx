@@ -2,21 +2,19 @@
 
 import React from 'react';
 
-import { Button, type ButtonProps } from './button';
-import { useButtonStyles } from './style';
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
 
-export type CancelButtonProps = ButtonProps;
+export type CancelButtonProps = PresetButtonProps;
 
 export function CancelButton(props: CancelButtonProps) {
-  const { styles, cx } = useButtonStyles();
-  const { className, ...rest } = props;
+  const buttonProps = usePresetButtonProps('cancel', props);
 
   return (
     <Button
-      {...rest}
+      {...buttonProps}
       color="default"
       variant="filled"
-      className={cx(styles.cancel, className)}
     />
   );
 }
@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
+
+export type DangerButtonProps = PresetButtonProps;
+
+/** 危险操作（删除等）：antd `color="danger"` 实心按钮 */
+export function DangerButton(props: DangerButtonProps) {
+  const buttonProps = usePresetButtonProps('danger', props);
+
+  return (
+    <Button
+      {...buttonProps}
+      color="danger"
+      variant="solid"
+    />
+  );
+}
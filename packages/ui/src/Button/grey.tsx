@@ -2,21 +2,19 @@
 
 import React from 'react';
 
-import { Button, type ButtonProps } from './button';
-import { useButtonStyles } from './style';
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
 
-export type GreyButtonProps = ButtonProps;
+export type GreyButtonProps = PresetButtonProps;
 
 export function GreyButton(props: GreyButtonProps) {
-  const { styles, cx } = useButtonStyles();
-  const { className, ...rest } = props;
+  const buttonProps = usePresetButtonProps('grey', props);
 
   return (
     <Button
-      {...rest}
+      {...buttonProps}
       color="default"
       variant="filled"
-      className={cx(styles.grey, className)}
     />
   );
 }
@@ -7,4 +7,15 @@ export { GreyButton } from './grey';
 export type { GreyButtonProps } from './grey';
 export { PrimaryButton } from './primary';
 export type { PrimaryButtonProps } from './primary';
+export { DangerButton } from './danger';
+export type { DangerButtonProps } from './danger';
+export { OutlineButton } from './outline';
+export type { OutlineButtonProps } from './outline';
+export { TextButton } from './text';
+export type { TextButtonProps } from './text';
+export { LinkButton } from './link';
+export type { LinkButtonProps } from './link';
+export { WarningButton } from './warning';
+export type { WarningButtonProps } from './warning';
+export type { PresetButtonProps, PresetButtonSize } from './preset';
 
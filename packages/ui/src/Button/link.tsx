@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
+
+export type LinkButtonProps = PresetButtonProps;
+
+/** 链接按钮：主色文字 */
+export function LinkButton(props: LinkButtonProps) {
+  const buttonProps = usePresetButtonProps('link', props);
+
+  return (
+    <Button
+      {...buttonProps}
+      color="primary"
+      variant="link"
+    />
+  );
+}
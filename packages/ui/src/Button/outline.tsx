@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
+
+export type OutlineButtonProps = PresetButtonProps;
+
+/** 次要操作：主色描边按钮 */
+export function OutlineButton(props: OutlineButtonProps) {
+  const buttonProps = usePresetButtonProps('outline', props);
+
+  return (
+    <Button
+      {...buttonProps}
+      color="primary"
+      variant="outlined"
+    />
+  );
+}
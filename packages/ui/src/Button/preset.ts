@@ -0,0 +1,34 @@
+import { ConfigProvider } from 'antd';
+
+import type { ButtonProps } from './button';
+import { useButtonStyles } from './style';
+
+/** 预设按钮的尺寸：antd 的 `small/middle/large`，外加更紧凑的 `compact`（表格操作列等，按 antd `small` 渲染） */
+export type PresetButtonSize = NonNullable<ButtonProps['size']> | 'compact';
+
+export type PresetButtonProps = Omit<ButtonProps, 'size'> & {
+  /** 尺寸（默认：`ConfigProvider componentSize`，未设置时 large） */
+  size?: PresetButtonSize;
+};
+
+type PresetButtonVariant = 'primary' | 'cancel' | 'grey' | 'danger' | 'outline' | 'text' | 'link' | 'warning';
+
+/**
+ * 预设按钮共用：按尺寸与样式拼 className，并把 `compact` 换成 antd 认识的 `small`。
+ * - 未传 `size` 时沿用 `ConfigProvider componentSize`（含 `Form size`），都没有时才用 large
+ * - `icon`、`block` 等其余 props 原样透传
+ */
+export function usePresetButtonProps(variant: PresetButtonVariant, props: PresetButtonProps): ButtonProps {
+  const { styles, cx } = useButtonStyles();
+  const { componentSize } = ConfigProvider.useConfig();
+  const { size = componentSize ?? 'large', className, ...rest } = props;
+
+  // 取消按钮在 large 下更高、更宽
+  const sizeClassName = variant === 'cancel' && size === 'large' ? styles.cancelLarge : styles[size];
+
+  return {
+    ...rest,
+    size: size === 'compact' ? 'small' : size,
+    className: cx(sizeClassName, styles[variant], className)
+  };
+}
@@ -2,15 +2,14 @@
 
 import React from 'react';
 
-import { Button, type ButtonProps } from './button';
-import { useButtonStyles } from './style';
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
 
-export type PrimaryButtonProps = ButtonProps;
+export type PrimaryButtonProps = PresetButtonProps;
 
 export function PrimaryButton(props: PrimaryButtonProps) {
-  const { styles, cx } = useButtonStyles();
-  const { className, ...rest } = props;
+  const buttonProps = usePresetButtonProps('primary', props);
 
-  return <Button {...rest} type="primary" className={cx(styles.primary, className)} />;
+  return <Button {...buttonProps} type="primary" />;
 }
 
@@ -1,16 +1,9 @@
-import { createStyles } from '@farm-design-system/theme/react';
+import { createStyles, type CSSObject } from '@farm-design-system/theme/react';
 
-const PRIMARY_HEIGHT = 48;
-const PRIMARY_PADDING_INLINE = 24;
-const PRIMARY_FONT_SIZE = 16;
-
-const CANCEL_HEIGHT = 52;
-const CANCEL_PADDING_INLINE = 32;
-const CANCEL_FONT_SIZE = 16;
-
-const GREY_HEIGHT = 48;
-const GREY_PADDING_INLINE = 24;
-const GREY_FONT_SIZE = 16;
+/** 组件 token 未设置时的高度 */
+const LARGE_HEIGHT = 48;
+const CANCEL_LARGE_HEIGHT = 52;
+const COMPACT_HEIGHT = 20;
 
 const BORDER_RADIUS = 6;
 const FONT_WEIGHT = 500;
@@ -18,26 +11,88 @@ const FONT_WEIGHT = 500;
 const disabledSelector = '&:disabled, &.ant-btn-disabled';
 const enabledHoverSelector = '&:not(:disabled):not(.ant-btn-disabled):hover';
 const enabledActiveSelector = '&:not(:disabled):not(.ant-btn-disabled):active';
+const iconOnlySelector = '&.ant-btn-icon-only';
+
+type ButtonSizeStyle = {
+  height: number;
+  paddingInline: number;
+  fontSize: number;
+  borderRadius: number;
+};
 
-export const useButtonStyles = createStyles((theme) => {
+function sizeStyle({ height, paddingInline, fontSize, borderRadius }: ButtonSizeStyle): CSSObject {
   return {
-    primary: {
-      height: PRIMARY_HEIGHT,
-      paddingInline: PRIMARY_PADDING_INLINE,
-      fontSize: PRIMARY_FONT_SIZE,
-      borderRadius: BORDER_RADIUS,
-      fontWeight: FONT_WEIGHT,
-      '&:focus-visible': {
-        outline: '2px solid currentColor',
-        outlineOffset: '2px'
-      }
+    height,
+    paddingInline,
+    fontSize,
+    borderRadius,
+    fontWeight: FONT_WEIGHT,
+    // 所有样式共用：键盘聚焦时用文字色描边
+    '&:focus-visible': {
+      outline: '2px solid currentColor',
+      outlineOffset: '2px'
+    },
+    '& .ant-btn-icon': {
+      fontSize
     },
+    [iconOnlySelector]: {
+      width: height,
+      paddingInline: 0
+    }
+  };
+}
+
+/**
+ * 预设按钮样式，slot 可通过 `FarmProvider components.Button.<slot>` 覆写：
+ * - 尺寸 slot：large/middle/small/compact，取消按钮的 large 用 cancelLarge；高度 48/52/20 取 Button 组件 token
+ * - 样式 slot：primary/danger/outline/text/link 交给 antd 的 color + variant，cancel/grey/warning 自定义底色
+ */
+export const useButtonStyles = createStyles((theme, _params, { componentToken }) => {
+  // 组件 token 不在时（未包 FarmProvider）回退到全局 token
+  const colorToken = (key: string, fallback: string) => {
+    const value = componentToken[key];
+    return typeof value === 'string' ? value : fallback;
+  };
+  const sizeToken = (key: string, fallback: number) => {
+    const value = componentToken[key];
+    return typeof value === 'number' ? value : fallback;
+  };
+
+  // 尺寸 slot 在前：同一元素上样式 slot（含 `components` 覆写）的同名属性优先
+  return {
+    large: sizeStyle({
+      height: sizeToken('largeHeight', LARGE_HEIGHT),
+      paddingInline: theme.paddingLG,
+      fontSize: theme.fontSizeLG,
+      borderRadius: BORDER_RADIUS
+    }),
+    middle: sizeStyle({
+      height: theme.controlHeight,
+      paddingInline: theme.padding,
+      fontSize: theme.fontSize,
+      borderRadius: BORDER_RADIUS
+    }),
+    small: sizeStyle({
+      height: theme.controlHeightSM,
+      paddingInline: theme.paddingXS,
+      fontSize: theme.fontSize,
+      borderRadius: BORDER_RADIUS
+    }),
+    compact: sizeStyle({
+      height: sizeToken('compactHeight', COMPACT_HEIGHT),
+      paddingInline: theme.paddingXS,
+      fontSize: theme.fontSizeSM,
+      borderRadius: theme.borderRadiusXS
+    }),
+    cancelLarge: sizeStyle({
+      height: sizeToken('cancelLargeHeight', CANCEL_LARGE_HEIGHT),
+      paddingInline: theme.paddingXL,
+      fontSize: theme.fontSizeLG,
+      borderRadius: BORDER_RADIUS
+    }),
+
+    primary: {},
     cancel: {
-      height: CANCEL_HEIGHT,
-      paddingInline: CANCEL_PADDING_INLINE,
-      fontSize: CANCEL_FONT_SIZE,
-      borderRadius: BORDER_RADIUS,
-      fontWeight: FONT_WEIGHT,
       borderColor: 'transparent',
       boxShadow: 'none',
       backgroundColor: theme.controlItemBgHover,
@@ -51,18 +106,9 @@ export const useButtonStyles = createStyles((theme) => {
       [disabledSelector]: {
         backgroundColor: theme.colorBgTextHover,
         color: theme.colorTextDisabled
-      },
-      '&:focus-visible': {
-        outline: '2px solid currentColor',
-        outlineOffset: '2px'
       }
     },
     grey: {
-      height: GREY_HEIGHT,
-      paddingInline: GREY_PADDING_INLINE,
-      fontSize: GREY_FONT_SIZE,
-      borderRadius: BORDER_RADIUS,
-      fontWeight: FONT_WEIGHT,
       borderColor: 'transparent',
       boxShadow: 'none',
       backgroundColor: theme.colorBgSolid,
@@ -76,11 +122,29 @@ export const useButtonStyles = createStyles((theme) => {
       [disabledSelector]: {
         backgroundColor: theme.colorBgContainerDisabled,
         color: theme.colorTextDisabled
+      }
+    },
+    danger: {},
+    outline: {},
+    text: {},
+    link: {},
+    warning: {
+      borderColor: 'transparent',
+      boxShadow: 'none',
+      backgroundColor: colorToken('warningBg', theme.colorBgContainer),
+      color: theme.colorWarning,
+      [enabledHoverSelector]: {
+        backgroundColor: colorToken('warningHoverBg', theme.colorBgTextHover),
+        color: theme.colorWarningHover
+      },
+      [enabledActiveSelector]: {
+        backgroundColor: colorToken('warningActiveBg', theme.colorBgTextActive),
+        color: theme.colorWarningActive
       },
-      '&:focus-visible': {
-        outline: '2px solid currentColor',
-        outlineOffset: '2px'
+      [disabledSelector]: {
+        backgroundColor: colorToken('warningBgDisabled', theme.colorBgContainerDisabled),
+        color: theme.colorTextDisabled
       }
     }
   };
-});
+}, { name: 'Button' });
@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
+
+export type TextButtonProps = PresetButtonProps;
+
+/** 文字按钮：无底色，hover 时出现浅底 */
+export function TextButton(props: TextButtonProps) {
+  const buttonProps = usePresetButtonProps('text', props);
+
+  return (
+    <Button
+      {...buttonProps}
+      color="default"
+      variant="text"
+    />
+  );
+}
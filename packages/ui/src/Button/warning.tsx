@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+
+import { Button } from './button';
+import { usePresetButtonProps, type PresetButtonProps } from './preset';
+
+export type WarningButtonProps = PresetButtonProps;
+
+/** 警示操作：Finex Warning button 底色 + `colorWarning` 文字 */
+export function WarningButton(props: WarningButtonProps) {
+  const buttonProps = usePresetButtonProps('warning', props);
+
+  return (
+    <Button
+      {...buttonProps}
+      color="default"
+      variant="filled"
+    />
+  );
+}
@@ -0,0 +1,142 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, waitFor } from '@testing-library/react';
+
+afterEach(() => cleanup());
+
+vi.mock('antd', async () => {
+  const React = (await import('react')).default;
+
+  return {
+    ConfigProvider: Object.assign(
+      (props: { children?: React.ReactNode }) => React.createElement(React.Fragment, null, props.children),
+      { useConfig: () => ({}) },
+    ),
+    Button: (props: unknown) =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (() => {
+        const { autoInsertSpace: _autoInsertSpace, loading, ...rest } = props as any;
+        return React.createElement('button', { 'data-testid': 'antd-button', 'data-loading': loading, ...rest }, rest.children);
+      })(),
+    Drawer: (props: unknown) =>
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (() => {
+        const { open, placement, zIndex, title, footer, children, styles, drawerRender } = props as any;
+        if (!open) return null;
+        const content = React.createElement(
+          'div',
+          { 'data-testid': 'antd-drawer-section' },
+          React.createElement('div', { 'data-testid': 'antd-drawer-title' }, title),
+          React.createElement('div', { 'data-testid': 'antd-drawer-body' }, children),
+          footer === null ? null : React.createElement('div', { 'data-testid': 'antd-drawer-footer' }, footer),
+        );
+        return React.createElement(
+          'div',
+          {
+            'data-testid': 'antd-drawer',
+            'data-placement': placement,
+            'data-z-index': zIndex,
+            style: styles?.wrapper,
+          },
+          drawerRender ? drawerRender(content) : content,
+        );
+      })(),
+    theme: {
+      useToken: () => ({ theme: {}, token: {}, hashId: 'test-hash', cssVar: {} }),
+      darkAlgorithm: {},
+      defaultAlgorithm: {},
+    },
+  };
+});
+
+const React = (await import('react')).default;
+const { BottomSheet, Drawer } = await import('../index');
+type ModalRef = import('../../Modal').ModalRef;
+
+describe('Drawer', () => {
+  it('与 Modal 一致：trigger 打开、标题栏关闭按钮、取消/确定按钮与 children 注入', async () => {
+    const onOk = vi.fn();
+    const { getByText, getByRole, queryByTestId, getByTestId } = render(
+      React.createElement(Drawer, {
+        title: '筛选',
+        placement: 'left',
+        onOk,
+        trigger: React.createElement('button', null, '打开'),
+        children: ({ isOpen }) => React.createElement('div', null, `drawer-open-${String(isOpen)}`),
+      }),
+    );
+
+    fireEvent.click(getByText('打开'));
+    await waitFor(() => expect(getByTestId('antd-drawer')).toHaveAttribute('data-placement', 'left'));
+    expect(getByTestId('antd-drawer')).toHaveAttribute('data-z-index', '1000');
+    expect(getByText('筛选')).toBeInTheDocument();
+    expect(getByText('drawer-open-true')).toBeInTheDocument();
+
+    fireEvent.click(getByText('确定'));
+    await waitFor(() => expect(queryByTestId('antd-drawer')).not.toBeInTheDocument());
+    expect(onOk).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(getByText('打开'));
+    await waitFor(() => expect(getByTestId('antd-drawer')).toBeInTheDocument());
+    fireEvent.click(getByRole('button', { name: '关闭' }));
+    await waitFor(() => expect(queryByTestId('antd-drawer')).not.toBeInTheDocument());
+  });
+
+  it('ModalRef：open/close 控制抽屉', async () => {
+    const ref = React.createRef<ModalRef>();
+    const { queryByTestId } = render(React.createElement(Drawer, { ref, footer: null }, '内容'));
+
+    act(() => ref.current!.open());
+    await waitFor(() => expect(queryByTestId('antd-drawer')).toBeInTheDocument());
+    expect(queryByTestId('antd-drawer-footer')).not.toBeInTheDocument();
+
+    act(() => ref.current!.close());
+    await waitFor(() => expect(queryByTestId('antd-drawer')).not.toBeInTheDocument());
+  });
+});
+
+describe('BottomSheet', () => {
+  function dragHandle(handle: Element, fromY: number, toY: number) {
+    fireEvent.pointerDown(handle, { clientY: fromY, pointerId: 1 });
+    fireEvent.pointerMove(handle, { clientY: toY, pointerId: 1 });
+    fireEvent.pointerUp(handle, { clientY: toY, pointerId: 1 });
+  }
+
+  it('拖动把手切换停靠点，向下拖过最低停靠点一半时关闭', async () => {
+    const onSnapChange = vi.fn();
+    const onCancel = vi.fn();
+    const { getByText, getByTestId, queryByTestId } = render(
+      React.createElement(
+        BottomSheet,
+        {
+          snapPoints: [200, 500],
+          onSnapChange,
+          onCancel,
+          footer: null,
+          trigger: React.createElement('button', null, '打开'),
+        },
+        '面板内容',
+      ),
+    );
+
+    fireEvent.click(getByText('打开'));
+    await waitFor(() => expect(getByTestId('antd-drawer')).toHaveAttribute('data-placement', 'bottom'));
+    const sheet = getByTestId('antd-drawer');
+    expect(sheet).toHaveStyle({ height: '200px' });
+
+    const handle = sheet.querySelector('[aria-hidden]')!.parentElement!;
+    dragHandle(handle, 600, 350);
+    await waitFor(() => expect(onSnapChange).toHaveBeenCalledWith(1));
+    expect(sheet).toHaveStyle({ height: '500px' });
+
+    // 500 -> 200 附近：回到第一个停靠点
+    dragHandle(handle, 300, 580);
+    await waitFor(() => expect(onSnapChange).toHaveBeenLastCalledWith(0));
+    expect(getByTestId('antd-drawer')).toHaveStyle({ height: '200px' });
+
+    // 200 -> 40：小于最低停靠点的一半，关闭
+    dragHandle(handle, 300, 460);
+    await waitFor(() => expect(queryByTestId('antd-drawer')).not.toBeInTheDocument());
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+});
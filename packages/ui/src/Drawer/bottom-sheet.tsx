@@ -0,0 +1,152 @@
+'use client';
+
+import React from 'react';
+import { isFunction } from 'es-toolkit';
+import { twMerge } from 'tailwind-merge';
+
+import type { ModalRef } from '../Modal/core';
+import { Drawer, type DrawerProps } from './drawer';
+import { useBottomSheetStyles } from './style';
+
+/** 停靠高度：px 数字或视口高度百分比（如 `'50%'`） */
+export type BottomSheetSnapPoint = number | `${number}%`;
+
+export interface BottomSheetProps extends Omit<DrawerProps, 'placement' | 'size' | 'resizable' | 'push'> {
+  /** 停靠高度，从低到高（默认：`['50%', '90%']`） */
+  snapPoints?: BottomSheetSnapPoint[];
+  /** 打开时停在第几个停靠点（默认：0） */
+  defaultSnapIndex?: number;
+  /** 拖动后停靠点变化 */
+  onSnapChange?: (index: number) => void;
+  /** 向下拖过最低停靠点的一半时关闭（默认：true） */
+  dragToDismiss?: boolean;
+}
+
+const DEFAULT_SNAP_POINTS: BottomSheetSnapPoint[] = ['50%', '90%'];
+
+function toPx(point: BottomSheetSnapPoint): number {
+  if (typeof point === 'number') return point;
+  return (window.innerHeight * parseFloat(point)) / 100;
+}
+
+/**
+ * 移动端底部面板：基于 `Drawer`（placement 固定为 bottom），拖动顶部把手在停靠点之间切换，向下拖到底关闭。
+ */
+export const BottomSheet = React.forwardRef<ModalRef, BottomSheetProps>((props, ref) => {
+  const {
+    snapPoints = DEFAULT_SNAP_POINTS,
+    defaultSnapIndex = 0,
+    onSnapChange,
+    dragToDismiss = true,
+
+    classNames: userClassNames,
+    styles: userStyles,
+    afterOpenChange,
+    drawerRender,
+
+    ...drawerProps
+  } = props;
+
+  const { styles } = useBottomSheetStyles();
+
+  const drawerRef = React.useRef<ModalRef>(null);
+  React.useImperativeHandle(
+    ref,
+    () => ({
+      open: () => drawerRef.current?.open(),
+      close: () => drawerRef.current?.close(),
+    }),
+    [],
+  );
+
+  const [snapIndex, setSnapIndex] = React.useState(defaultSnapIndex);
+  // 拖动中的实时高度（px），未拖动时为 null
+  const [dragHeight, setDragHeight] = React.useState<number | null>(null);
+  const dragRef = React.useRef<{ startY: number; startHeight: number; height: number } | null>(null);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const startHeight = toPx(snapPoints[snapIndex] ?? snapPoints[0]!);
+    dragRef.current = { startY: e.clientY, startHeight, height: startHeight };
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    setDragHeight(startHeight);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const maxHeight = Math.max(...snapPoints.map(toPx));
+    drag.height = Math.min(Math.max(drag.startHeight - (e.clientY - drag.startY), 0), maxHeight);
+    setDragHeight(drag.height);
+  };
+
+  const onPointerUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    setDragHeight(null);
+
+    const heights = snapPoints.map(toPx);
+    if (dragToDismiss && drag.height < Math.min(...heights) / 2) {
+      drawerRef.current?.close();
+      return;
+    }
+
+    // 停到最近的停靠点
+    const nearest = heights.reduce(
+      (best, height, index) => (Math.abs(height - drag.height) < Math.abs(heights[best]! - drag.height) ? index : best),
+      0,
+    );
+    if (nearest !== snapIndex) {
+      setSnapIndex(nearest);
+      onSnapChange?.(nearest);
+    }
+  };
+
+  const handleAfterOpenChange = (open: boolean) => {
+    // 关闭后回到默认停靠点，下次打开从头开始
+    if (!open) setSnapIndex(defaultSnapIndex);
+    afterOpenChange?.(open);
+  };
+
+  const userSlotClassNames = isFunction(userClassNames) ? undefined : userClassNames;
+  const userSlotStyles = isFunction(userStyles) ? undefined : userStyles;
+
+  return (
+    <Drawer
+      ref={drawerRef}
+      {...drawerProps}
+      placement="bottom"
+      afterOpenChange={handleAfterOpenChange}
+      classNames={{
+        ...userSlotClassNames,
+        wrapper: twMerge(styles.sheetWrapper, userSlotClassNames?.wrapper),
+        section: twMerge(styles.sheetSection, userSlotClassNames?.section),
+      }}
+      styles={{
+        ...userSlotStyles,
+        wrapper: {
+          // 未拖动时直接用停靠值（百分比相对视口，窗口尺寸变化时无需重新计算）
+          height: dragHeight ?? snapPoints[snapIndex] ?? snapPoints[0],
+          ...(dragHeight === null ? {} : { transition: 'none' }),
+          ...(userSlotStyles?.wrapper ?? {}),
+        },
+      }}
+      drawerRender={(node) => (
+        <div className={styles.sheet}>
+          <div
+            className={styles.handleBar}
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerCancel={onPointerUp}
+          >
+            <span className={styles.handle} aria-hidden />
+          </div>
+          {drawerRender ? drawerRender(node) : node}
+        </div>
+      )}
+    />
+  );
+});
+
+BottomSheet.displayName = 'BottomSheet';
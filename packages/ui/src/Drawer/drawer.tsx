@@ -0,0 +1,141 @@
+'use client';
+
+import React from 'react';
+import { Drawer as AntdDrawer } from 'antd';
+import type { DrawerProps as AntdDrawerProps } from 'antd';
+import { isFunction, isUndefined } from 'es-toolkit';
+import { twMerge } from 'tailwind-merge';
+
+import {
+  getBlurMaskStyle,
+  getDefaultContainer,
+  omitOverlayProps,
+  useOverlay,
+  type ModalRef,
+  type OverlayProps,
+} from '../Modal/core';
+import { useDrawerStyles } from './style';
+
+export interface DrawerProps
+  extends Omit<AntdDrawerProps, keyof OverlayProps | 'onClose' | 'closable'>,
+    Omit<OverlayProps, 'footer'> {
+  /** 底部内容；未传入时显示取消/确定按钮，传 `null` 隐藏 */
+  footer?: React.ReactNode;
+  /** 弹出方向（默认：right） */
+  placement?: 'left' | 'right' | 'top' | 'bottom';
+  /** 内容垂直内边距（默认：24） */
+  padding?: number;
+  /** 内容水平内边距（默认：24） */
+  paddingContentHorizontalLG?: number;
+  /** 标题对齐（默认：left） */
+  titleAlign?: 'left' | 'center' | 'right';
+}
+
+const DEFAULT_PADDING = 24;
+
+/**
+ * 抽屉：打开方式、`ModalRef`、标题栏、底部按钮与 children 注入都与 `Modal` 一致，并加入同一个弹窗栈。
+ */
+export const Drawer = React.forwardRef<ModalRef, DrawerProps>((props, ref) => {
+  const {
+    placement = 'right',
+    padding = DEFAULT_PADDING,
+    paddingContentHorizontalLG = DEFAULT_PADDING,
+    titleAlign = 'left',
+
+    classNames: userClassNames,
+    styles: userStyles,
+    getContainer,
+    afterOpenChange,
+
+    ...restProps
+  } = omitOverlayProps(props);
+
+  const { styles, vars } = useDrawerStyles({
+    padding,
+    paddingX: paddingContentHorizontalLG,
+    titleAlign,
+  });
+
+  const overlay = useOverlay(props, ref, { styles, titleTextStyle: vars.titleText });
+  const { stack } = overlay;
+
+  const mergedClassNames = React.useMemo(() => {
+    // antd 的 `classNames/styles` 也支持函数形式，此时不做逐项合并
+    const userSlotClassNames = isFunction(userClassNames) ? undefined : userClassNames;
+
+    return {
+      ...userSlotClassNames,
+      header: twMerge(styles.header, userSlotClassNames?.header),
+      body: twMerge(styles.body, userSlotClassNames?.body),
+      footer: twMerge(styles.footer, userSlotClassNames?.footer),
+    } satisfies AntdDrawerProps['classNames'];
+  }, [styles.body, styles.footer, styles.header, userClassNames]);
+
+  const mergedStyles = React.useMemo(() => {
+    const userSlotStyles = isFunction(userStyles) ? undefined : userStyles;
+
+    return {
+      ...userSlotStyles,
+      mask: {
+        ...getBlurMaskStyle(stack),
+        ...(userSlotStyles?.mask ?? {}),
+      },
+      header: {
+        ...vars.header,
+        ...(userSlotStyles?.header ?? {}),
+      },
+      body: {
+        ...vars.body,
+        ...(userSlotStyles?.body ?? {}),
+      },
+      footer: {
+        ...vars.footer,
+        ...(userSlotStyles?.footer ?? {}),
+      },
+    } satisfies AntdDrawerProps['styles'];
+  }, [stack, userStyles, vars]);
+
+  const resolvedGetContainer = React.useMemo(() => {
+    if (!isUndefined(getContainer)) return getContainer;
+    return () => getDefaultContainer() as HTMLElement;
+  }, [getContainer]);
+
+  const overlayAfterClose = overlay.afterClose;
+  const handleAfterOpenChange = React.useCallback(
+    (open: boolean) => {
+      if (!open) overlayAfterClose();
+      afterOpenChange?.(open);
+    },
+    [afterOpenChange, overlayAfterClose],
+  );
+
+  return (
+    <>
+      {overlay.trigger}
+
+      <AntdDrawer
+        {...restProps}
+        destroyOnHidden={restProps.destroyOnHidden ?? true}
+        closable={false}
+        placement={placement}
+        zIndex={restProps.zIndex ?? stack.zIndex}
+        keyboard={stack.isTop && (restProps.keyboard ?? true)}
+        maskClosable={stack.isTop && (restProps.maskClosable ?? true)}
+        open={overlay.open}
+        title={overlay.title}
+        // DrawerProps 的 footer 只接受 ReactNode
+        footer={overlay.footer as React.ReactNode}
+        onClose={overlay.handleCancel}
+        afterOpenChange={handleAfterOpenChange}
+        classNames={mergedClassNames}
+        styles={mergedStyles}
+        getContainer={resolvedGetContainer}
+      >
+        {overlay.children}
+      </AntdDrawer>
+    </>
+  );
+});
+
+Drawer.displayName = 'Drawer';
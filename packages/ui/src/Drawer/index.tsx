@@ -0,0 +1,5 @@
+export { Drawer } from './drawer';
+export type { DrawerProps } from './drawer';
+
+export { BottomSheet } from './bottom-sheet';
+export type { BottomSheetProps, BottomSheetSnapPoint } from './bottom-sheet';
@@ -0,0 +1,73 @@
+import { createStyles, type CssVarParams } from '@farm-design-system/theme/react';
+
+import { overlayChromeStyles } from '../Modal/style';
+
+/**
+ * 与 Modal 相同，参数以 CSS 变量下发；标题栏与底部按钮组沿用 Modal 的样式。
+ *
+ * 应用可通过 `FarmProvider components.Drawer.<slot>` 覆写（BottomSheet 同样生效）。
+ */
+export type DrawerStyleParams = {
+  padding: number;
+  paddingX: number;
+  titleAlign: 'left' | 'center' | 'right';
+};
+
+export const useDrawerStyles = createStyles((theme, params: CssVarParams<DrawerStyleParams>) => {
+  const { padding, paddingX, titleAlign } = params;
+
+  return {
+    header: {
+      borderBottom: 'none',
+      padding: `${padding} ${paddingX} 0`,
+    },
+    body: {
+      padding: `16px ${paddingX}`,
+    },
+    footer: {
+      borderTop: 'none',
+      padding: `0 ${paddingX} ${padding}`,
+    },
+
+    ...overlayChromeStyles(theme, titleAlign),
+  };
+}, { cssVarParams: true, name: 'Drawer' });
+
+/** BottomSheet 额外的 slot：拖拽把手与高度过渡 */
+export const useBottomSheetStyles = createStyles((theme) => ({
+  sheetWrapper: {
+    // 拖动时以 inline `transition: none` 跟手，松手后过渡到停靠高度
+    transition: `height ${theme.motionDurationMid} ${theme.motionEaseOut}`,
+  },
+  sheet: {
+    display: 'flex',
+    flexDirection: 'column',
+    height: '100%',
+    overflow: 'hidden',
+    borderTopLeftRadius: theme.borderRadiusLG,
+    borderTopRightRadius: theme.borderRadiusLG,
+    background: theme.colorBgElevated,
+  },
+  sheetSection: {
+    flex: 1,
+    minHeight: 0,
+  },
+  handleBar: {
+    flex: 'none',
+    display: 'flex',
+    justifyContent: 'center',
+    padding: '8px 0 4px',
+    cursor: 'grab',
+    touchAction: 'none',
+    userSelect: 'none',
+    '&:active': {
+      cursor: 'grabbing',
+    },
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    background: theme.colorFillSecondary,
+  },
+}), { name: 'BottomSheet' });
@@ -1,28 +1,58 @@
 import '@testing-library/jest-dom/vitest';
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { cleanup, fireEvent, render, waitFor } from '@testing-library/react';
+import { act, cleanup, fireEvent, render, waitFor } from '@testing-library/react';
 
-afterEach(() => cleanup());
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+// antd Form.Item 的栅格布局依赖 matchMedia（jsdom 未实现）
+function stubMatchMedia() {
+  vi.stubGlobal('matchMedia', () => ({
+    matches: false,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    addListener: () => {},
+    removeListener: () => {},
+  }));
+}
 
-vi.mock('antd', async () => {
+vi.mock('antd', async (importOriginal) => {
   const React = (await import('react')).default;
+  const { Form } = await importOriginal<typeof import('antd')>();
 
   return {
-    ConfigProvider: (props: { children?: React.ReactNode }) => React.createElement(React.Fragment, null, props.children),
+    Form,
+    ConfigProvider: Object.assign(
+      (props: { children?: React.ReactNode }) => React.createElement(React.Fragment, null, props.children),
+      { useConfig: () => ({}) },
+    ),
     Button: (props: unknown) =>
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (() => {
-        const { autoInsertSpace: _autoInsertSpace, ...rest } = props as any;
-        return React.createElement('button', { 'data-testid': 'antd-button', ...rest }, rest.children);
+        const { autoInsertSpace: _autoInsertSpace, loading, ...rest } = props as any;
+        return React.createElement('button', { 'data-testid': 'antd-button', 'data-loading': loading, ...rest }, rest.children);
       })(),
     Modal: (props: unknown) =>
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       (() => {
-        const { open, title, footer, children } = props as any;
+        const { open, title, footer, children, zIndex, keyboard, maskClosable, styles, afterClose } = props as any;
+        const wasOpenRef = React.useRef(open);
+        React.useEffect(() => {
+          if (wasOpenRef.current && !open) afterClose?.();
+          wasOpenRef.current = open;
+        }, [afterClose, open]);
         if (!open) return null;
         return React.createElement(
           'div',
-          { 'data-testid': 'antd-modal' },
+          {
+            'data-testid': 'antd-modal',
+            'data-z-index': zIndex,
+            'data-keyboard': String(keyboard),
+            'data-mask-closable': String(maskClosable),
+            'data-mask-blur': String(Boolean(styles?.mask?.backdropFilter)),
+          },
           React.createElement('div', { 'data-testid': 'antd-modal-title' }, title),
           React.createElement('div', { 'data-testid': 'antd-modal-body' }, children),
           footer === null
@@ -39,7 +69,12 @@ vi.mock('antd', async () => {
 });
 
 const React = (await import('react')).default;
-const { Modal } = await import('../index');
+const { FormModal, Modal, ModalFuncIconsProvider, ModalStackProvider, useFarmModal, useModalStack } = await import('../index');
+const { Form } = await import('antd');
+type ModalFuncApi = import('../index').ModalFuncApi;
+type FarmModalApi = import('../index').FarmModalApi;
+const { useModalStackEntry } = await import('../stack');
+type ModalStackEntryState = import('../stack').ModalStackEntryState;
 
 describe('Modal', () => {
   it('trigger 点击后打开，点击关闭按钮后关闭', async () => {
@@ -110,5 +145,384 @@ describe('Modal', () => {
     fireEvent.click(getByText('inside-close-true'));
     await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
   });
-});
 
+  it('titleAlign 以 CSS 变量写在标题上，不生成新的 class', async () => {
+    const { getByText, rerender } = render(React.createElement(Modal, { open: true, title: '标题' }));
+    const titleText = getByText('标题');
+    const className = titleText.className;
+    expect(titleText.style.getPropertyValue('--farm-param-title-align')).toBe('left');
+
+    rerender(React.createElement(Modal, { open: true, title: '标题', titleAlign: 'center' }));
+    await waitFor(() => expect(getByText('标题').style.getPropertyValue('--farm-param-title-align')).toBe('center'));
+    expect(getByText('标题').className).toBe(className);
+  });
+
+  it('onOk 返回 Promise 时确定按钮 loading，成功后关闭', async () => {
+    let resolve!: () => void;
+    const onOk = vi.fn(() => new Promise<void>((r) => (resolve = r)));
+    const { getByText, queryByTestId } = render(
+      React.createElement(Modal, { trigger: React.createElement('button', null, '打开'), onOk }),
+    );
+
+    fireEvent.click(getByText('打开'));
+    await waitFor(() => expect(queryByTestId('antd-modal')).toBeInTheDocument());
+
+    const okButton = getByText('确定');
+    fireEvent.click(okButton);
+    fireEvent.click(okButton);
+    expect(onOk).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(okButton).toHaveAttribute('data-loading', 'true'));
+
+    resolve();
+    await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
+  });
+
+  it('onOk 失败时不关闭，并交给 onOkError', async () => {
+    const error = new Error('boom');
+    const onOkError = vi.fn();
+    const { getByText, queryByTestId } = render(
+      React.createElement(Modal, {
+        trigger: React.createElement('button', null, '打开'),
+        onOk: () => Promise.reject(error),
+        onOkError,
+      }),
+    );
+
+    fireEvent.click(getByText('打开'));
+    await waitFor(() => expect(queryByTestId('antd-modal')).toBeInTheDocument());
+
+    fireEvent.click(getByText('确定'));
+    await waitFor(() => expect(onOkError).toHaveBeenCalledWith(error));
+    expect(queryByTestId('antd-modal')).toBeInTheDocument();
+    expect(getByText('确定')).toHaveAttribute('data-loading', 'false');
+  });
+
+  it('onOk 失败且未传 onOkError 时只输出一次 console.error，不产生未处理的 rejection', async () => {
+    const error = new Error('boom');
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { getByText, queryByTestId } = render(
+      React.createElement(Modal, {
+        trigger: React.createElement('button', null, '打开'),
+        onOk: () => Promise.reject(error),
+      }),
+    );
+
+    fireEvent.click(getByText('打开'));
+    await waitFor(() => expect(queryByTestId('antd-modal')).toBeInTheDocument());
+
+    fireEvent.click(getByText('确定'));
+    await waitFor(() => expect(consoleError).toHaveBeenCalledWith('Modal onOk error:', error));
+    expect(consoleError).toHaveBeenCalledTimes(1);
+    expect(queryByTestId('antd-modal')).toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+
+  it('useFarmModal：confirm 渲染在 contextHolder，点确定后 resolve true', async () => {
+    let api!: ModalFuncApi;
+    function App() {
+      const [modal, contextHolder] = useFarmModal();
+      api = modal;
+      return React.createElement('div', null, contextHolder);
+    }
+    const { getByText, queryByTestId } = render(React.createElement(App));
+
+    const onOk = vi.fn();
+    let handle!: ReturnType<ModalFuncApi['confirm']>;
+    act(() => {
+      handle = api.confirm({ title: '删除？', content: '删除后不可恢复', onOk });
+    });
+    await waitFor(() => expect(getByText('删除后不可恢复')).toBeInTheDocument());
+    expect(getByText('取消')).toBeInTheDocument();
+
+    act(() => handle.update({ content: '真的删除吗' }));
+    await waitFor(() => expect(getByText('真的删除吗')).toBeInTheDocument());
+
+    fireEvent.click(getByText('确定'));
+    await expect(handle).resolves.toBe(true);
+    expect(onOk).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
+  });
+
+  it('useFarmModal：默认图标带无障碍名称，ModalFuncIconsProvider 可按类型替换', async () => {
+    let api!: ModalFuncApi;
+    function App() {
+      const [modal, contextHolder] = useFarmModal();
+      api = modal;
+      return React.createElement('div', null, contextHolder);
+    }
+    const { getByRole, getByTestId } = render(
+      React.createElement(
+        ModalFuncIconsProvider,
+        { icons: { warning: React.createElement('svg', { 'data-testid': 'warning-icon' }) } },
+        React.createElement(App),
+      ),
+    );
+
+    act(() => {
+      api.info({ content: '已提交' });
+    });
+    await waitFor(() => expect(getByRole('img', { name: '提示' })).toHaveTextContent('i'));
+
+    act(() => {
+      api.warning({ content: '余额不足' });
+    });
+    await waitFor(() => expect(getByRole('img', { name: '警告' })).toContainElement(getByTestId('warning-icon')));
+  });
+
+  it('useFarmModal：info 只有确定按钮，关闭按钮 / destroy 时 resolve false 并触发 onCancel', async () => {
+    let api!: ModalFuncApi;
+    function App() {
+      const [modal, contextHolder] = useFarmModal();
+      api = modal;
+      return React.createElement('div', null, contextHolder);
+    }
+    const { getByText, queryByText, getByRole } = render(React.createElement(App));
+
+    const onCancel = vi.fn();
+    let info!: ReturnType<ModalFuncApi['info']>;
+    act(() => {
+      info = api.info({ title: '提示', content: '已保存', onCancel });
+    });
+    await waitFor(() => expect(getByText('已保存')).toBeInTheDocument());
+    expect(queryByText('取消')).not.toBeInTheDocument();
+
+    fireEvent.click(getByRole('button', { name: '关闭' }));
+    await expect(info).resolves.toBe(false);
+    expect(onCancel).toHaveBeenCalledTimes(1);
+
+    let error!: ReturnType<ModalFuncApi['error']>;
+    act(() => {
+      error = api.error({ content: '失败了' });
+    });
+    await waitFor(() => expect(getByText('失败了')).toBeInTheDocument());
+    act(() => error.destroy());
+    await expect(error).resolves.toBe(false);
+    await waitFor(() => expect(queryByText('失败了')).not.toBeInTheDocument());
+  });
+
+  it('useFarmModal().openModal：resolve 返回结果，关闭返回 undefined，reject 让 Promise 失败；可读取调用处的 context', async () => {
+    const UserContext = React.createContext('');
+    let api!: FarmModalApi;
+    function App() {
+      const [modal, contextHolder] = useFarmModal();
+      api = modal;
+      return React.createElement(UserContext.Provider, { value: 'alice' }, contextHolder);
+    }
+    function Picker(props: { onPick: (value: string) => void }) {
+      const user = React.useContext(UserContext);
+      return React.createElement('button', { onClick: () => props.onPick(user) }, `选择 ${user}`);
+    }
+    const { getByText, queryByTestId, getByRole } = render(React.createElement(App));
+
+    let picked!: Promise<string | undefined>;
+    act(() => {
+      picked = api.openModal<string>({
+        title: '选择用户',
+        children: ({ resolve }) => React.createElement(Picker, { onPick: resolve }),
+      });
+    });
+    await waitFor(() => expect(getByText('选择 alice')).toBeInTheDocument());
+    expect(queryByTestId('antd-modal-footer')).not.toBeInTheDocument();
+    fireEvent.click(getByText('选择 alice'));
+    await expect(picked).resolves.toBe('alice');
+    await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
+
+    let closed!: Promise<number | undefined>;
+    act(() => {
+      closed = api.openModal<number>({ children: () => '内容' });
+    });
+    await waitFor(() => expect(getByText('内容')).toBeInTheDocument());
+    fireEvent.click(getByRole('button', { name: '关闭' }));
+    await expect(closed).resolves.toBeUndefined();
+
+    const reason = new Error('cancelled');
+    let rejected!: Promise<number | undefined>;
+    act(() => {
+      rejected = api.openModal<number>({
+        children: ({ reject }) => React.createElement('button', { onClick: () => reject(reason) }, '放弃'),
+      });
+    });
+    await waitFor(() => expect(getByText('放弃')).toBeInTheDocument());
+    fireEvent.click(getByText('放弃'));
+    await expect(rejected).rejects.toBe(reason);
+    await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
+  });
+
+  it('弹窗栈：z-index 按打开顺序递增，只有最上层响应 Esc / 遮罩且保留模糊遮罩，closeAll 全部关闭', async () => {
+    const onCancel = vi.fn();
+    let stack!: ReturnType<typeof useModalStack>;
+    function StackProbe() {
+      stack = useModalStack();
+      return null;
+    }
+    function App() {
+      return React.createElement(
+        ModalStackProvider,
+        { baseZIndex: 2000 },
+        React.createElement(StackProbe),
+        React.createElement(
+          Modal,
+          { title: '外层', blurBackdrop: true, onCancel, trigger: React.createElement('button', null, '打开外层') },
+          React.createElement(Modal, {
+            title: '内层',
+            blurBackdrop: true,
+            trigger: React.createElement('button', null, '打开内层'),
+          }),
+        ),
+      );
+    }
+    const { getByText, getAllByTestId, queryByTestId } = render(React.createElement(App));
+
+    fireEvent.click(getByText('打开外层'));
+    await waitFor(() => expect(getAllByTestId('antd-modal')).toHaveLength(1));
+    const [outer] = getAllByTestId('antd-modal');
+    expect(outer).toHaveAttribute('data-z-index', '2000');
+    expect(outer).toHaveAttribute('data-keyboard', 'true');
+
+    fireEvent.click(getByText('打开内层'));
+    await waitFor(() => expect(getAllByTestId('antd-modal')).toHaveLength(2));
+    const inner = getAllByTestId('antd-modal')[1]!;
+    expect(stack.openCount).toBe(2);
+    expect(inner).toHaveAttribute('data-z-index', '2100');
+    expect(inner).toHaveAttribute('data-keyboard', 'true');
+    expect(inner).toHaveAttribute('data-mask-blur', 'true');
+    expect(outer).toHaveAttribute('data-keyboard', 'false');
+    expect(outer).toHaveAttribute('data-mask-closable', 'false');
+    expect(outer).toHaveAttribute('data-mask-blur', 'false');
+
+    act(() => stack.closeAll());
+    await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(stack.openCount).toBe(0);
+  });
+
+  it('弹窗栈：关闭后保留 z-index 直到关闭动画结束，未打开的弹窗不订阅栈', () => {
+    const states: Record<string, ModalStackEntryState> = {};
+    const renders: Record<string, number> = {};
+    let stack!: ReturnType<typeof useModalStack>;
+    function Entry(props: { name: string; open: boolean }) {
+      renders[props.name] = (renders[props.name] ?? 0) + 1;
+      states[props.name] = useModalStackEntry(props.open, { blurBackdrop: false, close: () => {} });
+      return null;
+    }
+    function StackProbe() {
+      stack = useModalStack();
+      return null;
+    }
+    const renderApp = (open: Record<'a' | 'b' | 'c', boolean>) =>
+      React.createElement(
+        ModalStackProvider,
+        null,
+        React.createElement(StackProbe),
+        React.createElement(Entry, { name: 'a', open: open.a }),
+        React.createElement(Entry, { name: 'b', open: open.b }),
+        React.createElement(Entry, { name: 'c', open: open.c }),
+      );
+
+    const { rerender } = render(renderApp({ a: true, b: false, c: false }));
+    rerender(renderApp({ a: true, b: true, c: false }));
+    expect(states.b!.zIndex).toBe(1100);
+    expect(states.b!.isTop).toBe(true);
+
+    // 关闭动画期间：z-index 不变，最上层让给 a
+    rerender(renderApp({ a: true, b: false, c: false }));
+    expect(states.b!.zIndex).toBe(1100);
+    expect(states.b!.isTop).toBe(false);
+    expect(states.a!.isTop).toBe(true);
+    expect(stack.openCount).toBe(1);
+
+    const cRenders = renders.c!;
+    act(() => states.b!.release());
+    expect(states.b!.zIndex).toBeUndefined();
+    expect(renders.c).toBe(cRenders);
+  });
+
+  it('FormModal：确定时先校验，失败保持打开并显示错误；通过后 onFinish 收到值，提交中确定按钮 loading', async () => {
+    let finish!: () => void;
+    const onFinish = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        }),
+    );
+    stubMatchMedia();
+    const { getByText, getByLabelText, findByText, queryByTestId } = render(
+      React.createElement(
+        FormModal<{ name: string }>,
+        {
+          title: '编辑',
+          formProps: { initialValues: { name: '' } },
+          onFinish,
+          trigger: React.createElement('button', null, '打开'),
+        },
+        React.createElement(
+          Form.Item,
+          { name: 'name', label: '名称', rules: [{ required: true, message: '请输入名称' }] },
+          React.createElement('input'),
+        ),
+      ),
+    );
+
+    fireEvent.click(getByText('打开'));
+    await waitFor(() => expect(queryByTestId('antd-modal')).toBeInTheDocument());
+
+    fireEvent.click(getByText('确定'));
+    expect(await findByText('请输入名称')).toBeInTheDocument();
+    expect(onFinish).not.toHaveBeenCalled();
+    expect(queryByTestId('antd-modal')).toBeInTheDocument();
+
+    fireEvent.change(getByLabelText('名称'), { target: { value: '订单 A' } });
+    fireEvent.click(getByText('确定'));
+    await waitFor(() => expect(onFinish).toHaveBeenCalledWith({ name: '订单 A' }));
+    await waitFor(() => expect(getByText('确定')).toHaveAttribute('data-loading', 'true'));
+
+    await act(async () => finish());
+    await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
+  });
+
+  it('FormModal：默认关闭后重置字段，resetOnClose=false 时保留', async () => {
+    stubMatchMedia();
+    function renderFormModal(resetOnClose: boolean) {
+      cleanup();
+      return render(
+        React.createElement(
+          FormModal,
+          {
+            resetOnClose,
+            formProps: { initialValues: { name: '初始' } },
+            trigger: React.createElement('button', null, '打开'),
+          },
+          React.createElement(Form.Item, { name: 'name', label: '名称' }, React.createElement('input')),
+        ),
+      );
+    }
+
+    for (const [resetOnClose, expected] of [
+      [true, '初始'],
+      [false, '修改后'],
+    ] as const) {
+      const { getByText, getByLabelText, getByRole, queryByTestId } = renderFormModal(resetOnClose);
+      fireEvent.click(getByText('打开'));
+      await waitFor(() => expect(getByLabelText('名称')).toHaveValue('初始'));
+      fireEvent.change(getByLabelText('名称'), { target: { value: '修改后' } });
+
+      fireEvent.click(getByRole('button', { name: '关闭' }));
+      await waitFor(() => expect(queryByTestId('antd-modal')).not.toBeInTheDocument());
+
+      fireEvent.click(getByText('打开'));
+      await waitFor(() => expect(getByLabelText('名称')).toHaveValue(expected));
+    }
+  });
+
+  it('静态方法 Modal.confirm 渲染到独立的 root', async () => {
+    let handle!: ReturnType<ModalFuncApi['confirm']>;
+    act(() => {
+      handle = Modal.confirm({ content: '静态确认' });
+    });
+    await waitFor(() => expect(document.body).toHaveTextContent('静态确认'));
+
+    const okButton = [...document.querySelectorAll('button')].find((button) => button.textContent === '确定')!;
+    fireEvent.click(okButton);
+    await expect(handle).resolves.toBe(true);
+  });
+});
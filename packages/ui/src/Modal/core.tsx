@@ -0,0 +1,365 @@
+'use client';
+
+import React from 'react';
+import type { ModalProps as AntdModalProps } from 'antd';
+import { isFunction, isUndefined, omit } from 'es-toolkit';
+import { twMerge } from 'tailwind-merge';
+
+import { CancelButton, PrimaryButton } from '../Button';
+import { useModalStackEntry, type ModalStackState } from './stack';
+
+export interface ModalRef {
+  open: () => void;
+  close: () => void;
+}
+
+export interface ModalChildrenParams {
+  onClose: () => void;
+  isOpen: boolean;
+}
+
+/** Modal / Drawer / BottomSheet 共用的属性：打开方式、标题栏、底部按钮与 children 注入 */
+export interface OverlayProps
+  extends Pick<
+    AntdModalProps,
+    'title' | 'footer' | 'okText' | 'cancelText' | 'confirmLoading' | 'okButtonProps' | 'cancelButtonProps'
+  > {
+  /**
+   * 用于触发打开的节点。
+   * - 提供 trigger 来减少 state 的使用
+   * - 如需完全控制，可使用 `open` + `onOpenChange`
+   */
+  trigger?: React.ReactElement;
+  /** 受控打开状态 */
+  open?: boolean;
+  /** 打开状态变化 */
+  onOpenChange?: (open: boolean) => void;
+  /** 关闭回调（来自：关闭按钮 / 取消按钮 / 点击遮罩 / Esc） */
+  onCancel?: () => void;
+  /**
+   * 点击确定按钮回调：
+   * - 未传入时：默认关闭
+   * - 返回 `false`：不关闭
+   * - 其它返回值：关闭
+   * - 返回 Promise 时确定按钮自动 loading，结束前不会重复触发；失败时不关闭
+   */
+  onOk?: (e: React.MouseEvent<HTMLButtonElement>) => void | boolean | Promise<void | boolean>;
+  /** `onOk` 抛错或 Promise 失败时触发（弹窗保持打开）；未传入时输出到 `console.error` */
+  onOkError?: (error: unknown) => void;
+  /** 是否禁用 trigger */
+  disabled?: boolean;
+
+  /** 是否显示取消按钮（默认：true） */
+  cancelButtonVisible?: boolean;
+  /** 是否显示确定按钮（默认：true） */
+  okButtonVisible?: boolean;
+
+  /** 自定义关闭图标；传 `false/null` 可隐藏 */
+  closeIcon?: React.ReactNode | false | null;
+  /** 关闭按钮额外 className */
+  closeIconClassName?: string;
+
+  /** 是否启用遮罩模糊（多个弹窗叠加时只有最上层的模糊遮罩生效） */
+  blurBackdrop?: boolean;
+  /** 自定义标题渲染 */
+  titleRender?: (params: { closeIcon: React.ReactNode; title: React.ReactNode }) => React.ReactNode;
+  /** children 支持函数式注入 */
+  children?: ((params: ModalChildrenParams) => React.ReactNode) | React.ReactElement | React.ReactNode;
+}
+
+/** 标题栏与底部按钮用到的 slot（见 style.ts 的 `overlayChromeStyles`） */
+export interface OverlayChrome {
+  styles: Record<'titleBar' | 'titleText' | 'closeButton' | 'footerActions' | 'footerButton', string>;
+  titleTextStyle?: React.CSSProperties;
+}
+
+export interface OverlayState {
+  open: boolean;
+  closeModal: () => void;
+  handleCancel: () => void;
+  handleOk: (e: React.MouseEvent<HTMLButtonElement>) => Promise<void>;
+  /** 绑定了打开事件的 trigger */
+  trigger: React.ReactNode;
+  title: React.ReactNode;
+  footer: OverlayProps['footer'];
+  children: React.ReactNode;
+  stack: ModalStackState;
+  /** 关闭动画结束后调用（Modal 的 `afterClose`、Drawer 的 `afterOpenChange(false)`），之后才离开弹窗栈 */
+  afterClose: () => void;
+}
+
+// 类型约束保证与 OverlayProps 一一对应
+const OVERLAY_PROP_KEYS = Object.keys({
+  trigger: true,
+  open: true,
+  onOpenChange: true,
+  onCancel: true,
+  onOk: true,
+  onOkError: true,
+  disabled: true,
+  cancelButtonVisible: true,
+  okButtonVisible: true,
+  closeIcon: true,
+  closeIconClassName: true,
+  blurBackdrop: true,
+  titleRender: true,
+  children: true,
+  title: true,
+  footer: true,
+  okText: true,
+  cancelText: true,
+  confirmLoading: true,
+  okButtonProps: true,
+  cancelButtonProps: true,
+} satisfies Record<keyof OverlayProps, true>) as Array<keyof OverlayProps>;
+
+/** 去掉由 `useOverlay` 处理的属性，剩下的交给 antd 组件 */
+export function omitOverlayProps<P extends OverlayProps>(props: P): Omit<P, keyof OverlayProps> {
+  return omit(props, OVERLAY_PROP_KEYS);
+}
+
+export function getDefaultContainer(): HTMLElement | undefined {
+  if (typeof document === 'undefined') return undefined;
+  return document.getElementById('appModal') ?? document.body;
+}
+
+/** 遮罩模糊：只有弹窗栈里最上层的模糊弹窗输出 */
+export function getBlurMaskStyle(stack: ModalStackState): React.CSSProperties {
+  return stack.showBlur
+    ? {
+        backdropFilter: 'blur(8px)',
+        backgroundColor: 'rgba(0, 0, 0, 0.45)',
+      }
+    : {};
+}
+
+/**
+ * Modal / Drawer / BottomSheet 的共用逻辑：
+ * 受控/非受控打开状态、`ModalRef`、trigger 克隆、标题栏、`CancelButton/PrimaryButton` 底部按钮、children 注入与弹窗栈。
+ */
+export function useOverlay(props: OverlayProps, ref: React.ForwardedRef<ModalRef>, chrome: OverlayChrome): OverlayState {
+  const {
+    trigger,
+    disabled = false,
+
+    open: controlledOpen,
+    onOpenChange,
+    onCancel,
+    onOk,
+    onOkError,
+
+    cancelButtonVisible = true,
+    okButtonVisible = true,
+
+    closeIcon,
+    closeIconClassName,
+    blurBackdrop = false,
+    titleRender,
+
+    title,
+    footer,
+    okText,
+    cancelText,
+    confirmLoading,
+    okButtonProps,
+    cancelButtonProps,
+
+    children,
+  } = props;
+  const { styles, titleTextStyle } = chrome;
+
+  const isControlled = !isUndefined(controlledOpen);
+  const [uncontrolledOpen, setUncontrolledOpen] = React.useState(false);
+  const open = isControlled ? Boolean(controlledOpen) : uncontrolledOpen;
+
+  const setOpen = React.useCallback(
+    (next: boolean) => {
+      if (!isControlled) setUncontrolledOpen(next);
+      onOpenChange?.(next);
+    },
+    [isControlled, onOpenChange],
+  );
+
+  const openModal = React.useCallback(() => setOpen(true), [setOpen]);
+  const closeModal = React.useCallback(() => {
+    setOpen(false);
+    onCancel?.();
+  }, [onCancel, setOpen]);
+
+  React.useImperativeHandle(
+    ref,
+    () => ({
+      open: openModal,
+      close: closeModal,
+    }),
+    [closeModal, openModal],
+  );
+
+  // 嵌套弹窗：z-index 按打开顺序递增，只有最上层响应 Esc / 点击遮罩
+  const { release: afterClose, ...stack } = useModalStackEntry(open, { blurBackdrop, close: closeModal });
+
+  const onTriggerClick = React.useCallback(
+    (e: React.MouseEvent<HTMLElement>) => {
+      if (disabled) return;
+      openModal();
+      trigger?.props?.onClick?.(e);
+    },
+    [disabled, openModal, trigger],
+  );
+
+  const handleCancel = React.useCallback(() => {
+    closeModal();
+  }, [closeModal]);
+
+  const handleOk = React.useCallback(
+    async (e: React.MouseEvent<HTMLButtonElement>) => {
+      if (!onOk) {
+        closeModal();
+        return;
+      }
+
+      try {
+        const res = await onOk(e);
+        if (res !== false) closeModal();
+      } catch (err) {
+        if (onOkError) {
+          onOkError(err);
+        } else {
+          // eslint-disable-next-line no-console
+          console.error('Modal onOk error:', err);
+        }
+      }
+    },
+    [closeModal, onOk, onOkError],
+  );
+
+  const shouldShowCloseIcon = closeIcon !== false && closeIcon !== null;
+
+  const closeButtonNode = React.useMemo(() => {
+    if (!shouldShowCloseIcon) return null;
+    return (
+      <button
+        type="button"
+        className={twMerge(styles.closeButton, closeIconClassName)}
+        onClick={handleCancel}
+        aria-label="关闭"
+      >
+        {closeIcon === undefined ? '×' : closeIcon}
+      </button>
+    );
+  }, [closeIcon, closeIconClassName, handleCancel, shouldShowCloseIcon, styles.closeButton]);
+
+  const resolvedTitle = React.useMemo(() => {
+    if (!title && !closeButtonNode) return null;
+
+    const defaultTitle = (
+      <div className={styles.titleBar}>
+        <div className={styles.titleText} style={titleTextStyle}>
+          {title}
+        </div>
+        {closeButtonNode}
+      </div>
+    );
+
+    return titleRender ? titleRender({ title, closeIcon: closeButtonNode }) : defaultTitle;
+  }, [closeButtonNode, styles.titleBar, styles.titleText, title, titleRender, titleTextStyle]);
+
+  const resolvedFooter = React.useMemo(() => {
+    if (!isUndefined(footer)) return footer;
+    if (!cancelButtonVisible && !okButtonVisible) return null;
+
+    const okProps = okButtonProps ?? {};
+    const cancelProps = cancelButtonProps ?? {};
+
+    const resolvedOkText = okText ?? '确定';
+    const resolvedCancelText = cancelText ?? '取消';
+
+    const onCancelClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+      cancelProps.onClick?.(e);
+      handleCancel();
+    };
+
+    // 返回 Promise：loading 与防重复提交交给 Button（handleOk 自己处理错误，不会 reject）
+    const onOkClick = (e: React.MouseEvent<HTMLElement>) => {
+      okProps.onClick?.(e);
+      return handleOk(e as React.MouseEvent<HTMLButtonElement>);
+    };
+
+    return (
+      <div className={styles.footerActions}>
+        {cancelButtonVisible ? (
+          <CancelButton
+            {...cancelProps}
+            onClick={onCancelClick}
+            className={twMerge(styles.footerButton, cancelProps.className)}
+          >
+            {resolvedCancelText}
+          </CancelButton>
+        ) : null}
+
+        {okButtonVisible ? (
+          <PrimaryButton
+            {...okProps}
+            loading={okProps.loading ?? (confirmLoading || undefined)}
+            onClick={onOkClick}
+            className={twMerge(styles.footerButton, okProps.className)}
+          >
+            {resolvedOkText}
+          </PrimaryButton>
+        ) : null}
+      </div>
+    );
+  }, [
+    cancelButtonProps,
+    cancelButtonVisible,
+    cancelText,
+    confirmLoading,
+    footer,
+    handleCancel,
+    handleOk,
+    okButtonProps,
+    okButtonVisible,
+    okText,
+    styles.footerActions,
+    styles.footerButton,
+  ]);
+
+  const renderedChildren = React.useMemo(() => {
+    if (isFunction(children)) {
+      return (children as (params: ModalChildrenParams) => React.ReactNode)({ onClose: closeModal, isOpen: open });
+    }
+
+    const child = children ?? null;
+    if (!React.isValidElement(child)) return child;
+    if (typeof child.type === 'string') return child;
+
+    try {
+      return React.cloneElement(child as React.ReactElement, {
+        onClose: closeModal,
+        isOpen: open,
+      });
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn('Modal: failed to clone children with injected props:', err);
+      return child;
+    }
+  }, [children, closeModal, open]);
+
+  const triggerNode =
+    trigger && React.isValidElement(trigger)
+      ? React.cloneElement(trigger as React.ReactElement, { onClick: onTriggerClick })
+      : null;
+
+  return {
+    open,
+    closeModal,
+    handleCancel,
+    handleOk,
+    trigger: triggerNode,
+    title: resolvedTitle,
+    footer: resolvedFooter,
+    children: renderedChildren,
+    stack,
+    afterClose,
+  };
+}
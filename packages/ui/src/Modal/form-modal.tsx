@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { Form } from 'antd';
+import type { FormInstance, FormProps } from 'antd';
+import { isFunction } from 'es-toolkit';
+
+import type { ModalChildrenParams, ModalRef } from './core';
+import { Modal, type ModalProps } from './modal';
+
+export interface FormModalChildrenParams<Values> extends ModalChildrenParams {
+  form: FormInstance<Values>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface FormModalProps<Values = any> extends Omit<ModalProps, 'onOk' | 'children'> {
+  /** 外部 Form 实例；未传入时内部创建（可在 children 函数里拿到） */
+  form?: FormInstance<Values>;
+  /** 透传给 antd `Form`（如 `layout/initialValues`） */
+  formProps?: Omit<FormProps<Values>, 'form' | 'onFinish' | 'children'>;
+  /**
+   * 点击确定且校验通过后调用：
+   * - 返回 `false`：不关闭
+   * - 返回 Promise 时确定按钮 loading；失败时不关闭（错误交给 `onOkError`）
+   * - 校验失败时不调用，弹窗保持打开并显示字段错误
+   */
+  onFinish?: (values: Values) => void | boolean | Promise<void | boolean>;
+  /** 关闭后重置字段（默认：true）；传 `false` 时保留已填写内容，下次打开继续编辑 */
+  resetOnClose?: boolean;
+  children?: React.ReactNode | ((params: FormModalChildrenParams<Values>) => React.ReactNode);
+}
+
+function InternalFormModal<Values>(props: FormModalProps<Values>, ref: React.ForwardedRef<ModalRef>) {
+  const {
+    form: externalForm,
+    formProps,
+    onFinish,
+    resetOnClose = true,
+    confirmLoading,
+    afterClose,
+    children,
+    ...modalProps
+  } = props;
+
+  const [internalForm] = Form.useForm<Values>();
+  const form = externalForm ?? internalForm;
+
+  const [submitting, setSubmitting] = React.useState(false);
+  const mountedRef = React.useRef(true);
+  React.useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const handleOk = React.useCallback(async () => {
+    let values: Values;
+    try {
+      values = await form.validateFields();
+    } catch {
+      // 字段错误由 Form 展示，弹窗保持打开
+      return false;
+    }
+    if (!onFinish) return;
+
+    setSubmitting(true);
+    try {
+      return await onFinish(values);
+    } finally {
+      if (mountedRef.current) setSubmitting(false);
+    }
+  }, [form, onFinish]);
+
+  // 关闭动画结束后处理（此时 destroyOnClose 已卸载表单，重置不会闪动）
+  const handleAfterClose = React.useCallback(() => {
+    if (resetOnClose) form.resetFields();
+    afterClose?.();
+  }, [afterClose, form, resetOnClose]);
+
+  return (
+    <Modal
+      ref={ref}
+      {...modalProps}
+      confirmLoading={confirmLoading ?? submitting}
+      onOk={handleOk}
+      afterClose={handleAfterClose}
+    >
+      {(params: ModalChildrenParams) => (
+        <Form form={form} {...formProps}>
+          {isFunction(children) ? children({ ...params, form }) : children}
+        </Form>
+      )}
+    </Modal>
+  );
+}
+
+/**
+ * 表单弹窗：内置 antd `Form`，点击确定时先校验，通过后把值交给 `onFinish`。
+ *
+ * ```tsx
+ * <FormModal<Order> title="编辑订单" trigger={<a>编辑</a>} formProps={{ initialValues: order }} onFinish={saveOrder}>
+ *   <Form.Item name="remark" label="备注" rules={[{ required: true }]}>
+ *     <Input />
+ *   </Form.Item>
+ * </FormModal>
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const FormModal = React.forwardRef(InternalFormModal) as (<Values = any>(
+  props: FormModalProps<Values> & React.RefAttributes<ModalRef>,
+) => React.ReactElement) & { displayName?: string };
+
+FormModal.displayName = 'FormModal';
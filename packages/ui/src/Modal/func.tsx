@@ -0,0 +1,227 @@
+'use client';
+
+import React from 'react';
+import { useTheme } from '@farm-design-system/theme/react';
+
+import { Modal, type ModalProps } from './modal';
+import { useModalFuncStyles } from './style';
+
+export type ModalFuncType = 'confirm' | 'info' | 'success' | 'warning' | 'error';
+
+export interface ModalFuncProps
+  extends Omit<
+    ModalProps,
+    'trigger' | 'open' | 'onOpenChange' | 'children' | 'onOk' | 'onCancel' | 'disabled' | 'cancelButtonVisible'
+  > {
+  /** 正文 */
+  content?: React.ReactNode;
+  /** 正文左侧的图标（默认按类型显示；传 `null` 隐藏） */
+  icon?: React.ReactNode;
+  /**
+   * 点击确定：
+   * - 返回 `false`：不关闭
+   * - 返回 Promise 时确定按钮自动 loading，失败时不关闭（错误交给 `onOkError`）
+   */
+  onOk?: () => void | boolean | Promise<void | boolean>;
+  /** 未点确定而关闭（取消按钮 / 关闭按钮 / Esc / `destroy()`） */
+  onCancel?: () => void;
+}
+
+/**
+ * 命令式弹窗的句柄：
+ * - 可直接 `await`：点确定关闭时为 `true`，其它方式关闭为 `false`
+ * - `update()` 修改配置（可传函数基于上一次配置计算）
+ * - `destroy()` 关闭弹窗（结果为 `false`）
+ */
+export interface ModalFuncHandle extends PromiseLike<boolean> {
+  update: (config: Partial<ModalFuncProps> | ((prev: ModalFuncProps) => Partial<ModalFuncProps>)) => void;
+  destroy: () => void;
+}
+
+export type ModalFuncApi = Record<ModalFuncType, (config: ModalFuncProps) => ModalFuncHandle>;
+
+/** 弹窗挂到哪里：静态方法渲染到独立的 React root，`useFarmModal` 渲染到 contextHolder */
+export interface ModalFuncRenderer {
+  render: (node: React.ReactElement) => void;
+  remove: () => void;
+}
+
+const MODAL_FUNC_TYPES: ModalFuncType[] = ['confirm', 'info', 'success', 'warning', 'error'];
+
+/** 默认图标：类型色圆底 + 字符；可通过 `components.Modal.funcIcon` 改样式，或用 `ModalFuncIconsProvider` 整个替换 */
+const ICON_TEXT: Record<ModalFuncType, string> = {
+  confirm: '?',
+  info: 'i',
+  success: '✓',
+  warning: '!',
+  error: '×',
+};
+
+/** 图标的无障碍名称 */
+const ICON_LABEL: Record<ModalFuncType, string> = {
+  confirm: '确认',
+  info: '提示',
+  success: '成功',
+  warning: '警告',
+  error: '错误',
+};
+
+/** 按类型替换的图标；`null` 表示不显示 */
+export type ModalFuncIcons = Partial<Record<ModalFuncType, React.ReactNode>>;
+
+const ModalFuncIconsContext = React.createContext<ModalFuncIcons>({});
+
+export interface ModalFuncIconsProviderProps {
+  icons: ModalFuncIcons;
+  children?: React.ReactNode;
+}
+
+/**
+ * 替换其中命令式弹窗（`useFarmModal`）的默认图标，例如换成 `@ant-design/icons` 或应用自己的图标：
+ * - 图标放在 `color` 为类型色的容器里（`currentColor` 的 SVG 图标会跟着变色），容器带 `role="img"` 与类型名称
+ * - 嵌套时在外层配置之上合并；单次调用传入的 `icon` 优先
+ *
+ * 静态方法 `Modal.confirm` 等渲染在独立的 React root，读不到这里的配置。
+ */
+export function ModalFuncIconsProvider(props: ModalFuncIconsProviderProps) {
+  const { icons, children } = props;
+  const parent = React.useContext(ModalFuncIconsContext);
+  const value = React.useMemo(() => ({ ...parent, ...icons }), [icons, parent]);
+  return <ModalFuncIconsContext.Provider value={value}>{children}</ModalFuncIconsContext.Provider>;
+}
+
+function useIconColor(type: ModalFuncType): string {
+  const theme = useTheme();
+  switch (type) {
+    case 'info':
+      return theme.colorInfo;
+    case 'success':
+      return theme.colorSuccess;
+    case 'error':
+      return theme.colorError;
+    default:
+      return theme.colorWarning;
+  }
+}
+
+interface ModalFuncComponentProps {
+  type: ModalFuncType;
+  config: ModalFuncProps;
+  open: boolean;
+  onClose: (confirmed: boolean) => void;
+  afterClose: () => void;
+}
+
+function ModalFunc(props: ModalFuncComponentProps) {
+  const { type, config, open, onClose, afterClose } = props;
+  const { content, icon, onOk, onCancel, afterClose: userAfterClose, ...modalProps } = config;
+  const { styles } = useModalFuncStyles();
+  const iconColor = useIconColor(type);
+
+  // 区分“点确定关闭”与其它关闭方式
+  const confirmedRef = React.useRef(false);
+
+  const handleOk = React.useCallback(async () => {
+    const res = await onOk?.();
+    if (res !== false) confirmedRef.current = true;
+    return res;
+  }, [onOk]);
+
+  const handleOpenChange = React.useCallback(
+    (next: boolean) => {
+      if (next) return;
+      if (!confirmedRef.current) onCancel?.();
+      onClose(confirmedRef.current);
+    },
+    [onCancel, onClose],
+  );
+
+  const handleAfterClose = React.useCallback(() => {
+    userAfterClose?.();
+    afterClose();
+  }, [afterClose, userAfterClose]);
+
+  const icons = React.useContext(ModalFuncIconsContext);
+  const customIcon = icons[type];
+
+  let iconNode: React.ReactNode = icon;
+  if (icon === undefined) {
+    iconNode =
+      customIcon === undefined ? (
+        <span className={styles.funcIcon} style={{ backgroundColor: iconColor }} role="img" aria-label={ICON_LABEL[type]}>
+          {ICON_TEXT[type]}
+        </span>
+      ) : customIcon === null ? null : (
+        <span className={styles.funcIconCustom} style={{ color: iconColor }} role="img" aria-label={ICON_LABEL[type]}>
+          {customIcon}
+        </span>
+      );
+  }
+
+  return (
+    <Modal
+      width={416}
+      maskClosable={false}
+      {...modalProps}
+      open={open}
+      onOpenChange={handleOpenChange}
+      onOk={handleOk}
+      cancelButtonVisible={type === 'confirm'}
+      afterClose={handleAfterClose}
+    >
+      <div className={styles.funcBody}>
+        {iconNode}
+        <div className={styles.funcContent}>{content}</div>
+      </div>
+    </Modal>
+  );
+}
+
+/**
+ * 打开一个命令式弹窗：维护配置与打开状态，每次变化都交给 renderer 重新渲染。
+ */
+function openModalFunc(type: ModalFuncType, config: ModalFuncProps, renderer: ModalFuncRenderer): ModalFuncHandle {
+  let currentConfig = config;
+  let open = true;
+  let resolveResult!: (confirmed: boolean) => void;
+  const result = new Promise<boolean>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  const close = (confirmed: boolean) => {
+    if (!open) return;
+    open = false;
+    resolveResult(confirmed);
+    render();
+  };
+
+  function render() {
+    renderer.render(
+      <ModalFunc type={type} config={currentConfig} open={open} onClose={close} afterClose={renderer.remove} />,
+    );
+  }
+
+  render();
+
+  return {
+    update: (next) => {
+      currentConfig = { ...currentConfig, ...(typeof next === 'function' ? next(currentConfig) : next) };
+      render();
+    },
+    destroy: () => {
+      if (!open) return;
+      currentConfig.onCancel?.();
+      close(false);
+    },
+    then: (onfulfilled, onrejected) => result.then(onfulfilled, onrejected),
+  };
+}
+
+/** 基于 renderer 工厂生成 confirm/info/success/warning/error 方法（每次调用新建一个 renderer） */
+export function createModalFuncApi(createRenderer: () => ModalFuncRenderer): ModalFuncApi {
+  const api = {} as ModalFuncApi;
+  for (const type of MODAL_FUNC_TYPES) {
+    api[type] = (config) => openModalFunc(type, config, createRenderer());
+  }
+  return api;
+}
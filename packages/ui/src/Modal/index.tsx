@@ -1,6 +1,35 @@
-export { Modal } from './modal';
+import { Modal as InternalModal } from './modal';
+import type { ModalFuncApi } from './func';
+import { modalStatic } from './static';
+import { useFarmModal } from './use-farm-modal';
+
+type ModalType = typeof InternalModal &
+  ModalFuncApi & {
+    /** 同 `useFarmModal` */
+    useModal: typeof useFarmModal;
+  };
+
+/** 声明式 Modal；另有静态方法 `Modal.confirm/info/success/warning/error`（无上下文）与 `Modal.useModal()` */
+export const Modal = Object.assign(InternalModal, modalStatic, { useModal: useFarmModal }) as ModalType;
 export type { ModalProps, ModalRef } from './modal';
 
+export { useFarmModal, type FarmModalApi } from './use-farm-modal';
+export type { OpenModalChildrenParams, OpenModalProps } from './open-modal';
+export { ModalFuncIconsProvider } from './func';
+export type {
+  ModalFuncApi,
+  ModalFuncHandle,
+  ModalFuncIcons,
+  ModalFuncIconsProviderProps,
+  ModalFuncProps,
+  ModalFuncType,
+} from './func';
+
+export { ModalStackProvider, useModalStack } from './stack';
+export type { ModalStackApi, ModalStackProviderProps } from './stack';
+
+export { FormModal } from './form-modal';
+export type { FormModalChildrenParams, FormModalProps } from './form-modal';
+
 export { CommonModal } from './common';
 export type { CommonModalProps } from './common';
-
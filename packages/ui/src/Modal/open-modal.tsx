@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+
+import type { ModalFuncRenderer } from './func';
+import { Modal, type ModalProps } from './modal';
+
+export interface OpenModalChildrenParams<T> {
+  /** 关闭弹窗，结果为 `undefined` */
+  onClose: () => void;
+  isOpen: boolean;
+  /** 关闭弹窗并以 `value` 作为结果 */
+  resolve: (value: T) => void;
+  /** 关闭弹窗并让结果 Promise 失败 */
+  reject: (reason?: unknown) => void;
+}
+
+export interface OpenModalProps<T> extends Omit<ModalProps, 'trigger' | 'open' | 'onOpenChange' | 'children' | 'disabled'> {
+  children: (params: OpenModalChildrenParams<T>) => React.ReactNode;
+}
+
+interface PromiseModalProps<T> {
+  config: OpenModalProps<T>;
+  open: boolean;
+  onResolve: (value: T | undefined) => void;
+  onReject: (reason: unknown) => void;
+  afterClose: () => void;
+}
+
+function PromiseModal<T>(props: PromiseModalProps<T>) {
+  const { config, open, onResolve, onReject, afterClose } = props;
+  const { children, afterClose: userAfterClose, ...modalProps } = config;
+
+  const handleOpenChange = React.useCallback(
+    (next: boolean) => {
+      if (!next) onResolve(undefined);
+    },
+    [onResolve],
+  );
+
+  const handleAfterClose = React.useCallback(() => {
+    userAfterClose?.();
+    afterClose();
+  }, [afterClose, userAfterClose]);
+
+  return (
+    <Modal
+      footer={null}
+      {...modalProps}
+      open={open}
+      onOpenChange={handleOpenChange}
+      afterClose={handleAfterClose}
+    >
+      {(params: { onClose: () => void; isOpen: boolean }) => children({ ...params, resolve: onResolve, reject: onReject })}
+    </Modal>
+  );
+}
+
+/**
+ * 打开一个以 Promise 返回结果的弹窗：
+ * - children 调 `resolve(value)` 时结果为 `value`；`reject(reason)` 时 Promise 失败
+ * - 其它方式关闭（`onClose`、关闭按钮、取消按钮、Esc）结果为 `undefined`
+ */
+export function openPromiseModal<T>(config: OpenModalProps<T>, renderer: ModalFuncRenderer): Promise<T | undefined> {
+  return new Promise<T | undefined>((resolve, reject) => {
+    let open = true;
+
+    const close = (settle: () => void) => {
+      if (!open) return;
+      open = false;
+      settle();
+      render();
+    };
+
+    function render() {
+      renderer.render(
+        <PromiseModal<T>
+          config={config}
+          open={open}
+          onResolve={(value) => close(() => resolve(value))}
+          onReject={(reason) => close(() => reject(reason))}
+          afterClose={renderer.remove}
+        />,
+      );
+    }
+
+    render();
+  });
+}
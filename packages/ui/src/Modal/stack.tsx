@@ -0,0 +1,197 @@
+'use client';
+
+import React from 'react';
+
+interface ModalStackEntry {
+  id: string;
+  blurBackdrop: boolean;
+  /** 已关闭、正在播放关闭动画：保留 z-index，但不再算作打开的弹窗 */
+  closing: boolean;
+  close: () => void;
+}
+
+interface ModalStackStore {
+  baseZIndex: number;
+  subscribe: (listener: () => void) => () => void;
+  getSnapshot: () => readonly ModalStackEntry[];
+  add: (entry: ModalStackEntry) => void;
+  update: (id: string, patch: Partial<Omit<ModalStackEntry, 'id'>>) => void;
+  remove: (id: string) => void;
+}
+
+/** antd 嵌套弹层的 z-index 偏移是 100，层与层之间至少留出这么多，避免上层弹窗盖住下层弹窗里的下拉框等 */
+const Z_INDEX_STEP = 100;
+const DEFAULT_BASE_Z_INDEX = 1000;
+
+function createModalStackStore(baseZIndex: number): ModalStackStore {
+  let entries: readonly ModalStackEntry[] = [];
+  const listeners = new Set<() => void>();
+
+  const setEntries = (next: readonly ModalStackEntry[]) => {
+    entries = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    baseZIndex,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => entries,
+    add: (entry) => {
+      setEntries([...entries.filter((item) => item.id !== entry.id), entry]);
+    },
+    update: (id, patch) => {
+      if (!entries.some((item) => item.id === id)) return;
+      setEntries(entries.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+    },
+    remove: (id) => {
+      if (!entries.some((item) => item.id === id)) return;
+      setEntries(entries.filter((item) => item.id !== id));
+    },
+  };
+}
+
+// 没有 ModalStackProvider 时（包括静态方法的独立 React root）共用一个全局栈
+const globalStore = createModalStackStore(DEFAULT_BASE_Z_INDEX);
+
+const ModalStackContext = React.createContext<ModalStackStore>(globalStore);
+
+const EMPTY_ENTRIES: readonly ModalStackEntry[] = [];
+
+const subscribeNothing = () => () => {};
+const getEmptyEntries = () => EMPTY_ENTRIES;
+
+/** `enabled` 为 false 时不订阅（未打开的弹窗不必随栈变化重新渲染） */
+function useStackEntries(store: ModalStackStore, enabled = true): readonly ModalStackEntry[] {
+  return React.useSyncExternalStore(
+    enabled ? store.subscribe : subscribeNothing,
+    enabled ? store.getSnapshot : getEmptyEntries,
+    getEmptyEntries,
+  );
+}
+
+export interface ModalStackProviderProps {
+  /** 最底层弹窗的 z-index，往上每层 +100（默认：1000，与 antd 一致） */
+  baseZIndex?: number;
+  children?: React.ReactNode;
+}
+
+/**
+ * 弹窗栈：按打开顺序管理其中的 Farm Modal
+ * - z-index 按打开顺序递增，后打开的在上层
+ * - 只有最上层响应 Esc 与点击遮罩
+ * - 多个 `blurBackdrop` 弹窗叠加时只保留最上层的模糊遮罩
+ *
+ * 未放置 Provider 时使用全局栈；静态方法 `Modal.confirm` 等始终在全局栈里。
+ */
+export function ModalStackProvider(props: ModalStackProviderProps) {
+  const { baseZIndex = DEFAULT_BASE_Z_INDEX, children } = props;
+  const store = React.useMemo(() => createModalStackStore(baseZIndex), [baseZIndex]);
+  return <ModalStackContext.Provider value={store}>{children}</ModalStackContext.Provider>;
+}
+
+export interface ModalStackApi {
+  /** 当前打开的弹窗数量 */
+  openCount: number;
+  /** 从上到下依次关闭所有弹窗（等同点击各自的关闭按钮，会触发 `onCancel`），可在路由切换时调用 */
+  closeAll: () => void;
+}
+
+/**
+ * 读取当前弹窗栈：
+ *
+ * ```tsx
+ * const { closeAll } = useModalStack();
+ * React.useEffect(() => closeAll, [pathname]);
+ * ```
+ */
+export function useModalStack(): ModalStackApi {
+  const store = React.useContext(ModalStackContext);
+  const entries = useStackEntries(store);
+
+  const closeAll = React.useCallback(() => {
+    [...store.getSnapshot()]
+      .reverse()
+      .filter((entry) => !entry.closing)
+      .forEach((entry) => entry.close());
+  }, [store]);
+
+  return { openCount: entries.filter((entry) => !entry.closing).length, closeAll };
+}
+
+export interface ModalStackState {
+  /** 不在栈里时为 `undefined`（沿用 antd 默认） */
+  zIndex: number | undefined;
+  /** 是否为最上层的打开弹窗（不在栈里时为 `true`） */
+  isTop: boolean;
+  /** 是否由自己渲染模糊遮罩 */
+  showBlur: boolean;
+}
+
+export interface ModalStackEntryState extends ModalStackState {
+  /** 关闭动画结束后调用（antd 的 `afterClose` / `afterOpenChange(false)`），此时才离开弹窗栈 */
+  release: () => void;
+}
+
+/**
+ * Modal 内部使用：打开后加入弹窗栈，返回该层的 z-index 与交互状态
+ * - 关闭后保留到 `release()`：关闭动画期间 z-index 不变，上层位置让给下面的弹窗
+ * - 只在栈里时订阅，未打开的弹窗不受其它弹窗开关影响
+ */
+export function useModalStackEntry(
+  open: boolean,
+  options: { blurBackdrop: boolean; close: () => void },
+): ModalStackEntryState {
+  const { blurBackdrop, close } = options;
+  const store = React.useContext(ModalStackContext);
+  const id = React.useId();
+
+  const [inStack, setInStack] = React.useState(open);
+  if (open && !inStack) setInStack(true);
+  const entries = useStackEntries(store, inStack);
+
+  const closeRef = React.useRef(close);
+  closeRef.current = close;
+  const openRef = React.useRef(open);
+  openRef.current = open;
+
+  React.useEffect(() => {
+    if (open) {
+      // 重新打开（包括关闭动画期间）时移到最上层
+      store.add({ id, blurBackdrop, closing: false, close: () => closeRef.current() });
+    } else {
+      store.update(id, { closing: true });
+    }
+    // blurBackdrop 的变化走下面的 update，不改变打开顺序
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id, open, store]);
+
+  React.useEffect(() => {
+    if (!inStack) return;
+    return () => store.remove(id);
+  }, [id, inStack, store]);
+
+  React.useEffect(() => {
+    store.update(id, { blurBackdrop });
+  }, [blurBackdrop, id, store]);
+
+  const release = React.useCallback(() => {
+    if (!openRef.current) setInStack(false);
+  }, []);
+
+  const index = entries.findIndex((entry) => entry.id === id);
+  if (index === -1) return { zIndex: undefined, isTop: true, showBlur: blurBackdrop, release };
+
+  const topOpenId = [...entries].reverse().find((entry) => !entry.closing)?.id;
+  const topBlurId = [...entries].reverse().find((entry) => entry.blurBackdrop)?.id;
+  return {
+    zIndex: store.baseZIndex + index * Z_INDEX_STEP,
+    isTop: topOpenId === id,
+    showBlur: topBlurId === id,
+    release,
+  };
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { FarmProvider } from '@farm-design-system/theme/react';
+
+import { createModalFuncApi, type ModalFuncRenderer } from './func';
+
+/**
+ * 静态方法渲染在独立的 React root 里，拿不到应用的 React 上下文（品牌、`overrides`、`components` 等）：
+ * - 使用内置主题，模式跟随 `<html data-theme>`（light/dark）
+ * - 需要上下文时改用 `useFarmModal()`
+ */
+function getDocumentMode(): 'light' | 'dark' {
+  return document.documentElement.getAttribute('data-theme') === 'dark' ? 'dark' : 'light';
+}
+
+function createStaticRenderer(): ModalFuncRenderer {
+  let container: HTMLDivElement | null = null;
+  let root: ReturnType<typeof createRoot> | null = null;
+
+  return {
+    render: (node) => {
+      if (typeof document === 'undefined') return;
+      if (!container) {
+        container = document.createElement('div');
+        document.body.appendChild(container);
+        root = createRoot(container);
+      }
+      // 不注入 CSS 变量、不改 document 属性：这些由应用自己的 FarmProvider 负责
+      root!.render(
+        <FarmProvider scope="wrap" tokensCss="" mode={getDocumentMode()}>
+          {node}
+        </FarmProvider>,
+      );
+    },
+    remove: () => {
+      const currentRoot = root;
+      const currentContainer = container;
+      root = null;
+      container = null;
+      // afterClose 在渲染流程中触发，延后卸载
+      setTimeout(() => {
+        currentRoot?.unmount();
+        currentContainer?.remove();
+      });
+    },
+  };
+}
+
+export const modalStatic = createModalFuncApi(createStaticRenderer);
@@ -1,36 +1,25 @@
-import { createStyles } from '@farm-design-system/theme/react';
+import { createStyles, type CssVarParams, type Theme } from '@farm-design-system/theme/react';
 
+/**
+ * 以 CSS 变量下发（`cssVarParams`）：不同 padding/对齐的 Modal 共用同一组 class，
+ * 参数值经 `vars[slot]` 写在对应元素的 inline style 上。
+ *
+ * 应用可通过 `FarmProvider components.Modal.<slot>` 覆写（如 `titleText`、`closeButton`）。
+ */
 export type ModalStyleParams = {
-  borderRadius: number;
   padding: number;
   paddingX: number;
+  /** body 垂直内边距（由 `padding` 推算） */
+  bodyPaddingY: number;
   titleAlign: 'left' | 'center' | 'right';
 };
 
-export const useModalStyles = createStyles((theme, params: ModalStyleParams) => {
-  const { borderRadius, padding, paddingX, titleAlign } = params;
-
+/**
+ * 标题栏、关闭按钮与底部按钮组：Modal / Drawer / BottomSheet 共用，
+ * 各组件以自己的名字注册（`components.Modal.titleBar`、`components.Drawer.titleBar`）。
+ */
+export function overlayChromeStyles(theme: Theme, titleAlign: string) {
   return {
-    container: {
-      borderRadius,
-      padding: 0,
-    },
-    header: {
-      background: 'transparent',
-      borderBottom: 'none',
-      marginBottom: 0,
-      padding: `${padding}px ${paddingX}px 0`,
-    },
-    body: {
-      padding: `${Math.max(16, Math.floor(padding / 2))}px ${paddingX}px`,
-    },
-    footer: {
-      background: 'transparent',
-      borderTop: 'none',
-      marginTop: 0,
-      padding: `0 ${paddingX}px ${padding}px`,
-    },
-
     titleBar: {
       display: 'flex',
       alignItems: 'center',
@@ -44,7 +33,7 @@ export const useModalStyles = createStyles((theme, params: ModalStyleParams) =>
       fontSize: 18,
       fontWeight: 600,
       color: theme.colorText,
-      textAlign: titleAlign,
+      textAlign: titleAlign as ModalStyleParams['titleAlign'],
     },
     closeButton: {
       width: 32,
@@ -84,4 +73,68 @@ export const useModalStyles = createStyles((theme, params: ModalStyleParams) =>
       minWidth: 160,
     },
   };
-});
+}
+
+export const useModalStyles = createStyles((theme, params: CssVarParams<ModalStyleParams>) => {
+  const { padding, paddingX, bodyPaddingY, titleAlign } = params;
+
+  return {
+    container: {
+      padding: 0,
+    },
+    header: {
+      background: 'transparent',
+      borderBottom: 'none',
+      marginBottom: 0,
+      padding: `${padding} ${paddingX} 0`,
+    },
+    body: {
+      padding: `${bodyPaddingY} ${paddingX}`,
+    },
+    footer: {
+      background: 'transparent',
+      borderTop: 'none',
+      marginTop: 0,
+      padding: `0 ${paddingX} ${padding}`,
+    },
+
+    ...overlayChromeStyles(theme, titleAlign),
+  };
+}, { cssVarParams: true, name: 'Modal' });
+
+/** 命令式弹窗（`Modal.confirm` / `useFarmModal`）的内容区：图标 + 文案；slot 与 Modal 共用 `components.Modal` */
+export const useModalFuncStyles = createStyles((theme) => ({
+  funcBody: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  funcIcon: {
+    flex: 'none',
+    width: 22,
+    height: 22,
+    marginTop: 1,
+    borderRadius: '50%',
+    display: 'inline-flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    color: theme.colorTextLightSolid,
+    fontSize: theme.fontSizeSM,
+    fontWeight: 600,
+    lineHeight: 1,
+  },
+  funcIconCustom: {
+    flex: 'none',
+    display: 'inline-flex',
+    marginTop: 1,
+    fontSize: 22,
+    lineHeight: 1,
+  },
+  funcContent: {
+    flex: 1,
+    minWidth: 0,
+    color: theme.colorTextSecondary,
+    fontSize: theme.fontSize,
+    lineHeight: theme.lineHeight,
+  },
+}), { name: 'Modal' });
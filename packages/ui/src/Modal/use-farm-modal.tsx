@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+
+import { createModalFuncApi, type ModalFuncApi, type ModalFuncRenderer } from './func';
+import { openPromiseModal, type OpenModalProps } from './open-modal';
+
+interface HolderRef {
+  patch: (key: number, node: React.ReactElement) => void;
+  remove: (key: number) => void;
+}
+
+const ModalFuncHolder = React.forwardRef<HolderRef>((_, ref) => {
+  const [elements, setElements] = React.useState<Array<[number, React.ReactElement]>>([]);
+
+  React.useImperativeHandle(
+    ref,
+    () => ({
+      patch: (key, node) => {
+        setElements((prev) => {
+          const index = prev.findIndex(([itemKey]) => itemKey === key);
+          if (index === -1) return [...prev, [key, node]];
+          const next = [...prev];
+          next[index] = [key, node];
+          return next;
+        });
+      },
+      remove: (key) => {
+        setElements((prev) => prev.filter(([itemKey]) => itemKey !== key));
+      },
+    }),
+    [],
+  );
+
+  return <>{elements.map(([key, node]) => <React.Fragment key={key}>{node}</React.Fragment>)}</>;
+});
+
+ModalFuncHolder.displayName = 'ModalFuncHolder';
+
+export type FarmModalApi = ModalFuncApi & {
+  /**
+   * 打开自定义内容的弹窗并等待结果：children 额外收到 `resolve/reject`。
+   *
+   * ```tsx
+   * const account = await modal.openModal<Account>({
+   *   title: '选择账户',
+   *   children: ({ resolve }) => <AccountList onSelect={resolve} />,
+   * });
+   * ```
+   */
+  openModal: <T>(props: OpenModalProps<T>) => Promise<T | undefined>;
+};
+
+/**
+ * 命令式弹窗（带上下文）：弹窗渲染在 `contextHolder` 所在位置，能拿到 `FarmProvider` 的主题、品牌与 `components` 覆写。
+ *
+ * ```tsx
+ * const [modal, contextHolder] = useFarmModal();
+ * const ok = await modal.confirm({ title: '删除订单？', content: '删除后不可恢复' });
+ * const account = await modal.openModal<Account>({ children: ({ resolve }) => … });
+ * return <>{contextHolder}…</>;
+ * ```
+ */
+export function useFarmModal(): [FarmModalApi, React.ReactElement] {
+  const holderRef = React.useRef<HolderRef | null>(null);
+  // contextHolder 挂载前的调用先排队
+  const pendingRef = React.useRef<Array<(holder: HolderRef) => void>>([]);
+  const keyRef = React.useRef(0);
+
+  const setHolder = React.useCallback((holder: HolderRef | null) => {
+    holderRef.current = holder;
+    if (!holder) return;
+    const pending = pendingRef.current;
+    pendingRef.current = [];
+    pending.forEach((action) => action(holder));
+  }, []);
+
+  const api = React.useMemo(() => {
+    const run = (action: (holder: HolderRef) => void) => {
+      if (holderRef.current) action(holderRef.current);
+      else pendingRef.current.push(action);
+    };
+
+    const createRenderer = (): ModalFuncRenderer => {
+      keyRef.current += 1;
+      const key = keyRef.current;
+      return {
+        render: (node) => run((holder) => holder.patch(key, node)),
+        remove: () => run((holder) => holder.remove(key)),
+      };
+    };
+
+    return {
+      ...createModalFuncApi(createRenderer),
+      openModal: <T,>(props: OpenModalProps<T>) => openPromiseModal(props, createRenderer()),
+    };
+  }, []);
+
+  return [api, <ModalFuncHolder key="farm-modal-holder" ref={setHolder} />];
+}
@@ -0,0 +1,17 @@
+import type { useButtonStyles } from './Button/style';
+import type { useBottomSheetStyles, useDrawerStyles } from './Drawer/style';
+import type { useModalFuncStyles, useModalStyles } from './Modal/style';
+
+/**
+ * 各组件可在 `FarmProvider components` 中覆写的样式 slot。
+ */
+export type ComponentStyleSlots = {
+  Button: keyof ReturnType<typeof useButtonStyles>['styles'];
+  Modal: keyof ReturnType<typeof useModalStyles>['styles'] | keyof ReturnType<typeof useModalFuncStyles>['styles'];
+  Drawer: keyof ReturnType<typeof useDrawerStyles>['styles'];
+  BottomSheet: keyof ReturnType<typeof useBottomSheetStyles>['styles'];
+};
+
+declare module '@farm-design-system/theme/react' {
+  interface FarmComponentSlots extends ComponentStyleSlots {}
+}
@@ -1,5 +1,57 @@
-export { Button, CancelButton, GreyButton, PrimaryButton } from './Button';
-export type { ButtonProps, CancelButtonProps, GreyButtonProps, PrimaryButtonProps } from './Button';
+export {
+  Button,
+  CancelButton,
+  DangerButton,
+  GreyButton,
+  LinkButton,
+  OutlineButton,
+  PrimaryButton,
+  TextButton,
+  WarningButton
+} from './Button';
+export type {
+  ButtonProps,
+  CancelButtonProps,
+  DangerButtonProps,
+  GreyButtonProps,
+  LinkButtonProps,
+  OutlineButtonProps,
+  PresetButtonProps,
+  PresetButtonSize,
+  PrimaryButtonProps,
+  TextButtonProps,
+  WarningButtonProps
+} from './Button';
 
-export { Modal, CommonModal } from './Modal';
-export type { ModalProps, ModalRef, CommonModalProps } from './Modal';
+export {
+  Modal,
+  CommonModal,
+  FormModal,
+  ModalFuncIconsProvider,
+  ModalStackProvider,
+  useFarmModal,
+  useModalStack
+} from './Modal';
+export type {
+  CommonModalProps,
+  FarmModalApi,
+  FormModalChildrenParams,
+  FormModalProps,
+  ModalFuncApi,
+  ModalFuncHandle,
+  ModalFuncIcons,
+  ModalFuncIconsProviderProps,
+  ModalFuncProps,
+  ModalFuncType,
+  ModalProps,
+  ModalRef,
+  ModalStackApi,
+  ModalStackProviderProps,
+  OpenModalChildrenParams,
+  OpenModalProps
+} from './Modal';
+
+export { Drawer, BottomSheet } from './Drawer';
+export type { BottomSheetProps, BottomSheetSnapPoint, DrawerProps } from './Drawer';
+
+export type { ComponentStyleSlots } from './components';